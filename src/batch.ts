@@ -0,0 +1,422 @@
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  describeError,
+  mapConcurrent,
+  resultMetrics,
+  resultText,
+  sharedArguments,
+  type ResultMetrics,
+  type ToolContext,
+} from "./calls.js";
+import { expandGlob } from "./glob.js";
+import { taskFilenames, uniqueName } from "./names.js";
+import { MULTI_INPUT_TOOLS, PIPELINE_TOOLS } from "./pipeline.js";
+
+// Pipeline tools that take exactly one input file, which batch runs over many.
+export const BATCH_TOOLS = PIPELINE_TOOLS.filter(
+  (tool) => !MULTI_INPUT_TOOLS.has(tool) && tool !== "html_to_pdf",
+);
+
+const MAX_BATCH_FILES = 500;
+
+// Batch tools whose API tool accepts many files per task, returning one
+// result per input; batch sends these in groups to save round-trips.
+const GROUPABLE_TOOLS = new Set<string>([
+  "compress_pdf",
+  "rotate_pdf",
+  "pdf_ocr",
+  "repair_pdf",
+  "unlock_pdf",
+  "protect_pdf",
+  "watermark_pdf",
+  "page_numbers",
+  "pdf_to_pdfa",
+  "compress_image",
+  "resize_image",
+  "convert_image",
+  "remove_background",
+  "upscale_image",
+  "crop_image",
+  "watermark_image",
+  "repair_image",
+  "rotate_image",
+]);
+
+const BatchSchema = z
+  .object({
+    tool: z.enum(PIPELINE_TOOLS).refine((tool) => BATCH_TOOLS.includes(tool), {
+      message: "batch only runs tools that take a single file_path",
+    }),
+    arguments: z.record(z.unknown()).default({}),
+    file_glob: z.string().min(1).optional(),
+    input_dir: z.string().min(1).optional(),
+    output_dir: z.string().min(1).optional(),
+    output_template: z
+      .string()
+      .refine((template) => template.includes("{name}"), {
+        message: "output_template must contain {name}",
+      })
+      .optional(),
+    concurrency: z.number().int().min(1).max(8).default(2),
+    group_size: z.number().int().min(1).max(50).default(10),
+  })
+  .refine(
+    (batch) =>
+      (batch.file_glob === undefined) !== (batch.input_dir === undefined),
+    {
+      message: "pass either file_glob or input_dir",
+    },
+  );
+
+/**
+ * Names a batch output: {name} is the input's base name, {ext} the result's
+ * extension and {tool} the tool that produced it.
+ */
+function renderOutputName(
+  template: string,
+  values: { name: string; ext: string; tool: string },
+): string {
+  const name = template
+    .replaceAll("{name}", values.name)
+    .replaceAll("{ext}", values.ext)
+    .replaceAll("{tool}", values.tool);
+  return path.basename(name);
+}
+
+// Stands for the result's extension while names are planned.
+const ANY_EXTENSION = "\0";
+
+/**
+ * Picks the {name} of every input's results before any task runs, in input
+ * order: the input's base name, with "-2", "-3"... added when the template
+ * would then give a name that an earlier input took or that a file in the
+ * directory already has, whatever the result's extension turns out to be.
+ * Also returns the names in each directory, for results named later.
+ */
+async function planOutputNames(
+  inputs: string[],
+  destDirOf: (input: string) => string,
+  template: string,
+  tool: string,
+): Promise<{ names: Map<string, string>; used: Map<string, Set<string>> }> {
+  const names = new Map<string, string>();
+  const used = new Map<string, Set<string>>();
+  const claimed = new Map<string, Set<string>>();
+  for (const input of inputs) {
+    const destDir = destDirOf(input);
+    if (!used.has(destDir)) {
+      const entries = await fs.promises
+        .readdir(destDir)
+        .catch((): string[] => []);
+      used.set(destDir, new Set(entries));
+      claimed.set(destDir, new Set());
+    }
+    const existing = used.get(destDir) as Set<string>;
+    const taken = claimed.get(destDir) as Set<string>;
+    const isTaken = (name: string) => {
+      // Compared case-insensitively, as some file systems do.
+      const pattern = renderOutputName(template, {
+        name,
+        ext: ANY_EXTENSION,
+        tool,
+      }).toLowerCase();
+      const matcher = new RegExp(
+        `^${pattern
+          .split(ANY_EXTENSION)
+          .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+          .join("[^.]+")}$`,
+        "i",
+      );
+      return (
+        taken.has(pattern) || [...existing].some((entry) => matcher.test(entry))
+      );
+    };
+
+    const base = path.basename(input, path.extname(input));
+    let name = base;
+    for (let n = 2; isTaken(name); n++) {
+      name = `${base}-${n}`;
+    }
+    taken.add(
+      renderOutputName(template, {
+        name,
+        ext: ANY_EXTENSION,
+        tool,
+      }).toLowerCase(),
+    );
+    names.set(input, name);
+  }
+  return { names, used };
+}
+
+/**
+ * Runs batch: one tool over every matched file, grouping files into shared
+ * tasks where the tool allows it. A failed group is retried one file at a
+ * time so that a single bad file does not fail the others.
+ */
+export async function runBatch(
+  args: Record<string, unknown>,
+  { callTool, reportProgress, signal }: ToolContext,
+): Promise<CallToolResult> {
+  const batch = BatchSchema.parse(args);
+  const inputs = await expandGlob(
+    batch.file_glob ?? path.join(batch.input_dir as string, "*"),
+  );
+  if (inputs.length === 0) {
+    throw new Error(
+      `No files match ${batch.file_glob ?? `${batch.input_dir}/*`}`,
+    );
+  }
+  if (inputs.length > MAX_BATCH_FILES) {
+    throw new Error(
+      `${inputs.length} files match, more than the ${MAX_BATCH_FILES} a batch can take`,
+    );
+  }
+  const template =
+    batch.output_template ??
+    (batch.output_dir === undefined ? "{name}-{tool}.{ext}" : "{name}.{ext}");
+  const outputDir =
+    batch.output_dir === undefined ? undefined : path.resolve(batch.output_dir);
+  if (
+    template === "{name}.{ext}" &&
+    inputs.some(
+      (input) => (outputDir ?? path.dirname(input)) === path.dirname(input),
+    )
+  ) {
+    throw new Error(
+      "Results would overwrite their inputs; use another output_dir or an output_template such as '{name}-out.{ext}'",
+    );
+  }
+  const shared = sharedArguments(args);
+  const started = Date.now();
+
+  const destDirOf = (input: string) => outputDir ?? path.dirname(input);
+  const { names: outputNames, used } = await planOutputNames(
+    inputs,
+    destDirOf,
+    template,
+    batch.tool,
+  );
+
+  // Files share a task only with files that go to the same directory.
+  const groupSize = GROUPABLE_TOOLS.has(batch.tool) ? batch.group_size : 1;
+  const byDir = new Map<string, string[]>();
+  for (const input of inputs) {
+    const destDir = destDirOf(input);
+    byDir.set(destDir, [...(byDir.get(destDir) ?? []), input]);
+  }
+  // Results are matched back to inputs by base name, and a tool may
+  // change the extension, so "a.jpg" and "a.png" go to different
+  // tasks.
+  const baseName = (file: string) =>
+    path.basename(file, path.extname(file)).toLowerCase();
+  const groups = [...byDir].flatMap(([destDir, files]) => {
+    const chunks: string[][] = [];
+    for (const file of files) {
+      let chunk = chunks.find(
+        (chunk) =>
+          chunk.length < groupSize &&
+          chunk.every((other) => baseName(other) !== baseName(file)),
+      );
+      if (chunk === undefined) {
+        chunk = [];
+        chunks.push(chunk);
+      }
+      chunk.push(file);
+    }
+    return chunks.map((files) => ({ destDir, files }));
+  });
+
+  type BatchResult = {
+    input: string;
+    success: boolean;
+    output_paths?: string[];
+    task?: string;
+    error?: string;
+  };
+  const tasks: ResultMetrics[] = [];
+
+  // Runs one task over `files` and moves each result next to its
+  // input's name. Throws when the task itself fails.
+  const runGroup = async (
+    destDir: string,
+    files: string[],
+  ): Promise<BatchResult[]> => {
+    await fs.promises.mkdir(destDir, { recursive: true });
+    // Results land in a hidden directory first so that they are only
+    // named once the output extension is known.
+    const workDir = await fs.promises.mkdtemp(path.join(destDir, ".batch-"));
+    try {
+      const result = await callTool(
+        batch.tool,
+        {
+          ...shared,
+          ...batch.arguments,
+          file_path: files[0],
+          output_dir: workDir,
+        },
+        () => undefined,
+        { inputGroup: files.length > 1 ? files : undefined, signal },
+      );
+      if (result.isError) {
+        throw new Error(resultText(result));
+      }
+      const metrics = resultMetrics(result);
+      tasks.push({
+        ...metrics,
+        output_path: undefined,
+        output_paths: [],
+      });
+
+      // Each result is named after the input it came from; a single
+      // input may produce several files.
+      const names = taskFilenames(files).map((name) =>
+        path.basename(name, path.extname(name)),
+      );
+      const produced = files.map(() => [] as string[]);
+      for (const file of metrics.output_paths) {
+        const base = path.basename(file, path.extname(file));
+        const index = files.length === 1 ? 0 : names.indexOf(base);
+        produced[index]?.push(file);
+      }
+
+      const results: BatchResult[] = [];
+      for (const [index, input] of files.entries()) {
+        if (produced[index].length === 0) {
+          results.push({
+            input,
+            success: false,
+            task: metrics.task,
+            error: "The task returned no result for this file",
+          });
+          continue;
+        }
+        const base = path.basename(input, path.extname(input));
+        const name = outputNames.get(input) as string;
+        const outputPaths: string[] = [];
+        for (const file of produced[index]) {
+          const extension = path.extname(file);
+          // Several results of one input keep their own suffixes, e.g.
+          // "doc-1" and "doc-2", after the planned name.
+          const fileBase = path.basename(file, extension);
+          const target = path.join(
+            destDir,
+            uniqueName(
+              renderOutputName(template, {
+                name:
+                  produced[index].length === 1
+                    ? name
+                    : fileBase.startsWith(base)
+                      ? name + fileBase.slice(base.length)
+                      : `${name}-${fileBase}`,
+                ext: extension.slice(1),
+                tool: batch.tool,
+              }),
+              used.get(destDir) as Set<string>,
+            ),
+          );
+          await fs.promises.rename(file, target);
+          outputPaths.push(target);
+        }
+        results.push({
+          input,
+          success: true,
+          output_paths: outputPaths,
+          task: metrics.task,
+        });
+      }
+      return results;
+    } finally {
+      await fs.promises.rm(workDir, { recursive: true, force: true });
+    }
+  };
+
+  let done = 0;
+  const finish = (results: BatchResult[]) => {
+    for (const result of results) {
+      done++;
+      reportProgress(
+        done,
+        inputs.length,
+        `Processed ${path.basename(result.input)} (${done}/${inputs.length})`,
+      );
+    }
+    return results;
+  };
+  const results = (
+    await mapConcurrent(
+      groups,
+      batch.concurrency,
+      async (group) => {
+        try {
+          return finish(await runGroup(group.destDir, group.files));
+        } catch (error) {
+          if (group.files.length === 1) {
+            return finish([
+              {
+                input: group.files[0],
+                success: false,
+                error: describeError(error),
+              },
+            ]);
+          }
+          // One bad file fails the whole task, so retry the group's
+          // files one at a time to find it.
+          signal?.throwIfAborted();
+          const results: BatchResult[] = [];
+          for (const input of group.files) {
+            try {
+              results.push(...finish(await runGroup(group.destDir, [input])));
+            } catch (error) {
+              results.push(
+                ...finish([
+                  { input, success: false, error: describeError(error) },
+                ]),
+              );
+            }
+          }
+          return results;
+        }
+      },
+      signal,
+    )
+  )
+    .flat()
+    // Groups no longer follow input order once names are kept apart.
+    .sort((a, b) => inputs.indexOf(a.input) - inputs.indexOf(b.input));
+
+  const succeeded = results.filter((result) => result.success);
+  const failed = results.filter((result) => !result.success);
+  const remaining = tasks
+    .map((task) => task.remaining_credits)
+    .filter((credits): credits is number => credits !== undefined);
+  const summary = {
+    tool: batch.tool,
+    total: inputs.length,
+    succeeded: succeeded.length,
+    failed: failed.length,
+    // The lowest balance any task started with; the API reports no cost.
+    remaining_credits:
+      remaining.length > 0 ? Math.min(...remaining) : undefined,
+    elapsed_ms: Date.now() - started,
+    results,
+    tasks,
+  };
+  const failures = failed
+    .map((result) => `- ${result.input}: ${result.error}`)
+    .join("\n");
+  return {
+    content: [
+      {
+        type: "text",
+        text: `Batch ${batch.tool} finished: ${succeeded.length} succeeded, ${failed.length} failed${failures ? `\nFailed:\n${failures}` : ""}`,
+      },
+      { type: "text", text: JSON.stringify(summary, null, 2) },
+    ],
+    structuredContent: summary,
+    isError: succeeded.length === 0,
+  };
+}
@@ -0,0 +1,205 @@
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import type { Region } from "./config.js";
+import {
+  AuthError,
+  CreditsExhaustedError,
+  FileTooLargeError,
+  ServerError,
+  ValidationError,
+} from "./http.js";
+
+/**
+ * What a processing tool reports back in its structured result. Sizes are in
+ * bytes; compression_ratio is output size over input size.
+ */
+export interface ResultMetrics {
+  tool: string;
+  task: string;
+  region: Region;
+  output_path?: string;
+  output_paths: string[];
+  input_files: number;
+  uploaded_bytes: number;
+  input_size: number;
+  output_size: number;
+  compression_ratio: number | null;
+  size_reduction_percent: number | null;
+  output_files: number;
+  output_format: string;
+  output_extensions: string[];
+  processing_time_ms: number | null;
+  elapsed_ms: number;
+  // As reported by /start, so before this task's own cost.
+  remaining_credits?: number;
+}
+
+function isResultMetrics(value: unknown): value is ResultMetrics {
+  const metrics = value as Partial<ResultMetrics> | undefined;
+  return (
+    typeof metrics?.tool === "string" &&
+    typeof metrics.task === "string" &&
+    Array.isArray(metrics.output_paths)
+  );
+}
+
+/**
+ * The metrics of a successful processing tool result. Throws when the
+ * result carries none, which only tools that write no files do.
+ */
+export function resultMetrics(result: CallToolResult): ResultMetrics {
+  if (!isResultMetrics(result.structuredContent)) {
+    throw new Error("The tool reported no output files");
+  }
+  return result.structuredContent;
+}
+
+/**
+ * The text blocks of a tool result, joined, without the "Error: " prefix of
+ * failures.
+ */
+export function resultText(result: CallToolResult): string {
+  return result.content
+    .map((block) => (block.type === "text" ? block.text : ""))
+    .join("\n")
+    .replace(/^Error: /, "");
+}
+
+/**
+ * `inputGroup` lets batch send several files through one task of a
+ * GROUPABLE_TOOLS tool: they replace the tool's single input. Aborting
+ * `signal` stops the call at its next request; the remote task is still
+ * deleted.
+ */
+export interface CallOptions {
+  inputGroup?: string[];
+  signal?: AbortSignal;
+}
+
+export type ReportProgress = (
+  progress: number,
+  total: number,
+  message: string,
+) => void;
+
+// Runs one tool, as callTool does; run_pipeline and batch call back into it.
+export type CallTool = (
+  toolName: string,
+  toolArgs: Record<string, unknown>,
+  reportProgress: ReportProgress,
+  options?: CallOptions,
+) => Promise<CallToolResult>;
+
+// What run_pipeline and batch need from the call that runs them.
+export interface ToolContext {
+  callTool: CallTool;
+  reportProgress: ReportProgress;
+  signal?: AbortSignal;
+}
+
+// Arguments of run_pipeline and batch that apply to every call they make.
+const SHARED_ARGUMENTS = [
+  "public_key",
+  "secret_key",
+  "auth_mode",
+  "profile",
+  "region",
+  "keep_remote_task",
+] as const;
+
+export function sharedArguments(
+  args: Record<string, unknown>,
+): Record<string, unknown> {
+  return Object.fromEntries(
+    SHARED_ARGUMENTS.filter((key) => key in args).map((key) => [
+      key,
+      args[key],
+    ]),
+  );
+}
+
+/**
+ * Maps `items` with at most `limit` calls in flight and returns the results
+ * in input order. The first failure aborts the signal passed to the calls
+ * still running and is rethrown once they have all settled. Aborting
+ * `signal` stops the calls the same way.
+ */
+export async function mapConcurrent<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number, signal: AbortSignal) => Promise<R>,
+  signal?: AbortSignal,
+): Promise<R[]> {
+  const controller = new AbortController();
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  let failure: { error: unknown } | undefined;
+  const onAbort = () => {
+    failure ??= { error: signal?.reason };
+    controller.abort();
+  };
+  if (signal?.aborted) {
+    onAbort();
+  }
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  const worker = async () => {
+    while (failure === undefined && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index], index, controller.signal);
+      } catch (error) {
+        if (failure === undefined) {
+          failure = { error };
+          controller.abort();
+        }
+      }
+    }
+  };
+  try {
+    await Promise.all(
+      Array.from({ length: Math.min(limit, items.length) }, worker),
+    );
+  } finally {
+    signal?.removeEventListener("abort", onAbort);
+  }
+
+  if (failure !== undefined) {
+    throw failure.error;
+  }
+  return results;
+}
+
+/**
+ * Turns an error into the text returned to the MCP client, adding what the
+ * caller can do about typed API failures.
+ */
+export function describeError(error: unknown): string {
+  if (!(error instanceof Error)) {
+    return String(error);
+  }
+  if (error instanceof z.ZodError) {
+    const issues = error.issues.map((issue) =>
+      issue.path.length > 0
+        ? `${issue.path.join(".")}: ${issue.message}`
+        : issue.message,
+    );
+    return `Invalid arguments: ${issues.join("; ")}`;
+  }
+  if (error instanceof AuthError) {
+    return `${error.message}. Check the project's public and secret keys.`;
+  }
+  if (error instanceof CreditsExhaustedError) {
+    return `${error.message}. The project has no credits left for this task.`;
+  }
+  if (error instanceof FileTooLargeError) {
+    return `${error.message}. The file exceeds the size allowed by the plan.`;
+  }
+  if (error instanceof ValidationError) {
+    return `${error.message}. Check the tool arguments.`;
+  }
+  if (error instanceof ServerError) {
+    return `${error.message}. iLovePDF kept failing after retries; try again later.`;
+  }
+  return error.message;
+}
@@ -0,0 +1,325 @@
+import { z } from "zod";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+export const AUTH_MODES = ["local", "remote"] as const;
+
+export type AuthMode = (typeof AUTH_MODES)[number];
+
+// "local" signs the JWT with the secret key; "remote" asks /auth for one.
+export const DEFAULT_AUTH_MODE: AuthMode = "local";
+
+// Regions accepted by the /start endpoint for task servers.
+export const REGIONS = ["us", "eu"] as const;
+
+export type Region = (typeof REGIONS)[number];
+
+export const DEFAULT_REGION: Region = "us";
+
+export const DEFAULT_API_BASE = "https://api.ilovepdf.com/v1";
+
+export const SERVER_SCHEMES = ["https", "http"] as const;
+
+export type ServerScheme = (typeof SERVER_SCHEMES)[number];
+
+export const DEFAULT_UPLOAD_CONCURRENCY = 4;
+
+const MAX_UPLOAD_CONCURRENCY = 16;
+
+export const DEFAULT_CONFIG_PATH = path.join(
+  os.homedir(),
+  ".config",
+  "ilovepdf-mcp",
+  "config.json",
+);
+
+const ProfileSchema = z.object({
+  public_key: z.string().optional(),
+  secret_key: z.string().optional(),
+  auth_mode: z.enum(AUTH_MODES).optional(),
+  region: z.enum(REGIONS).optional(),
+  output_dir: z.string().optional(),
+});
+
+const ConfigSchema = z.object({
+  public_key: z.string().optional(),
+  secret_key: z.string().optional(),
+  auth_mode: z.enum(AUTH_MODES).optional(),
+  region: z.enum(REGIONS).optional(),
+  api_base: z.string().url().optional(),
+  server_scheme: z.enum(SERVER_SCHEMES).optional(),
+  max_file_size_mb: z.number().positive().optional(),
+  upload_concurrency: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_UPLOAD_CONCURRENCY)
+    .optional(),
+  default_profile: z.string().optional(),
+  profiles: z.record(ProfileSchema).optional(),
+});
+
+export type ServerConfig = z.infer<typeof ConfigSchema>;
+
+export type Profile = z.infer<typeof ProfileSchema> & { name: string };
+
+export interface ProfileSummary {
+  name: string;
+  default: boolean;
+  public_key?: string;
+  has_secret_key: boolean;
+  auth_mode?: AuthMode;
+  region?: Region;
+  output_dir?: string;
+}
+
+export interface Credentials {
+  public_key: string;
+  secret_key?: string;
+  auth_mode: AuthMode;
+}
+
+/**
+ * Reads the server config from ILOVEPDF_CONFIG, or the default location if
+ * that is unset. A missing default file is not an error.
+ */
+export function loadConfig(
+  configPath: string | undefined = process.env.ILOVEPDF_CONFIG,
+): ServerConfig {
+  const file = configPath || DEFAULT_CONFIG_PATH;
+  if (!fs.existsSync(file)) {
+    if (configPath) {
+      throw new Error(`Config file not found: ${file}`);
+    }
+    return {};
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (error) {
+    throw new Error(
+      `Invalid config file ${file}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+  return ConfigSchema.parse(raw);
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" && value !== "" ? value : undefined;
+}
+
+/**
+ * Picks the profile named by the `profile` argument, falling back to
+ * ILOVEPDF_PROFILE and then the config's default_profile.
+ */
+export function resolveProfile(
+  args: Record<string, unknown>,
+  config: ServerConfig,
+  env: NodeJS.ProcessEnv = process.env,
+): Profile | undefined {
+  const name =
+    optionalString(args.profile) ??
+    optionalString(env.ILOVEPDF_PROFILE) ??
+    config.default_profile;
+  if (!name) {
+    return undefined;
+  }
+
+  const profile = config.profiles?.[name];
+  if (!profile) {
+    const known = Object.keys(config.profiles ?? {});
+    throw new Error(
+      `Unknown profile "${name}"${known.length ? ` (available: ${known.join(", ")})` : ""}`,
+    );
+  }
+  return { ...profile, name };
+}
+
+/**
+ * Resolves a relative output path against the profile's output directory.
+ */
+export function resolveOutputPath(
+  outputPath: string,
+  profile: Profile | undefined,
+): string {
+  if (path.isAbsolute(outputPath) || !profile?.output_dir) {
+    return outputPath;
+  }
+  return path.join(profile.output_dir, outputPath);
+}
+
+function maskKey(key: string): string {
+  return key.length > 12 ? `...${key.slice(-6)}` : "***";
+}
+
+export function listProfiles(
+  config: ServerConfig,
+  env: NodeJS.ProcessEnv = process.env,
+): ProfileSummary[] {
+  const defaultName =
+    optionalString(env.ILOVEPDF_PROFILE) ?? config.default_profile;
+  return Object.entries(config.profiles ?? {}).map(([name, profile]) => ({
+    name,
+    default: name === defaultName,
+    public_key: profile.public_key && maskKey(profile.public_key),
+    has_secret_key: Boolean(profile.secret_key),
+    auth_mode: profile.auth_mode,
+    region: profile.region,
+    output_dir: profile.output_dir,
+  }));
+}
+
+/**
+ * Resolves credentials for a tool call: explicit arguments first, then the
+ * selected profile and the config file, then ILOVEPDF_* environment
+ * variables. Keys are taken as a pair from the first source that has a
+ * public key, so a secret is never combined with another project's public
+ * key.
+ */
+export function resolveCredentials(
+  args: Record<string, unknown>,
+  config: ServerConfig,
+  profile: Profile | undefined,
+  env: NodeJS.ProcessEnv = process.env,
+): Credentials {
+  const sources = [
+    {
+      public_key: optionalString(args.public_key),
+      secret_key: optionalString(args.secret_key),
+    },
+    { public_key: profile?.public_key, secret_key: profile?.secret_key },
+    { public_key: config.public_key, secret_key: config.secret_key },
+    {
+      public_key: optionalString(env.ILOVEPDF_PUBLIC_KEY),
+      secret_key: optionalString(env.ILOVEPDF_SECRET_KEY),
+    },
+  ];
+  const keys = sources.find((source) => source.public_key);
+  if (!keys?.public_key) {
+    throw new Error(
+      "No iLovePDF credentials: pass public_key/secret_key, set ILOVEPDF_PUBLIC_KEY/ILOVEPDF_SECRET_KEY or add them to the config file",
+    );
+  }
+
+  const auth_mode = z
+    .enum(AUTH_MODES)
+    .parse(
+      optionalString(args.auth_mode) ??
+        profile?.auth_mode ??
+        config.auth_mode ??
+        optionalString(env.ILOVEPDF_AUTH_MODE) ??
+        DEFAULT_AUTH_MODE,
+    );
+
+  return {
+    public_key: keys.public_key,
+    secret_key: keys.secret_key,
+    auth_mode,
+  };
+}
+
+/**
+ * Resolves the task region: the `region` argument, then the profile, the
+ * config file and ILOVEPDF_REGION.
+ */
+export function resolveRegion(
+  args: Record<string, unknown>,
+  config: ServerConfig,
+  profile: Profile | undefined,
+  env: NodeJS.ProcessEnv = process.env,
+): Region {
+  const region =
+    optionalString(args.region) ??
+    profile?.region ??
+    config.region ??
+    optionalString(env.ILOVEPDF_REGION) ??
+    DEFAULT_REGION;
+  if (!(REGIONS as readonly string[]).includes(region)) {
+    throw new Error(
+      `Unsupported region "${region}" (supported: ${REGIONS.join(", ")})`,
+    );
+  }
+  return region as Region;
+}
+
+/**
+ * The API base URL from the config file or ILOVEPDF_API_BASE, without a
+ * trailing slash.
+ */
+export function resolveApiBase(
+  config: ServerConfig,
+  env: NodeJS.ProcessEnv = process.env,
+): string {
+  const base =
+    config.api_base ??
+    optionalString(env.ILOVEPDF_API_BASE) ??
+    DEFAULT_API_BASE;
+  return base.replace(/\/+$/, "");
+}
+
+/**
+ * The scheme used to reach task servers, which /start returns as bare host
+ * names. Only local stand-ins such as the mock server need "http".
+ */
+export function resolveServerScheme(
+  config: ServerConfig,
+  env: NodeJS.ProcessEnv = process.env,
+): ServerScheme {
+  return z
+    .enum(SERVER_SCHEMES)
+    .parse(
+      config.server_scheme ??
+        optionalString(env.ILOVEPDF_SERVER_SCHEME) ??
+        "https",
+    );
+}
+
+/**
+ * The largest local file, in bytes, that tools will upload: max_file_size_mb
+ * from the config file or ILOVEPDF_MAX_FILE_SIZE_MB. Undefined means no
+ * limit beyond the API's own.
+ */
+export function resolveMaxFileSize(
+  config: ServerConfig,
+  env: NodeJS.ProcessEnv = process.env,
+): number | undefined {
+  const fromEnv = optionalString(env.ILOVEPDF_MAX_FILE_SIZE_MB);
+  const megabytes =
+    config.max_file_size_mb ??
+    (fromEnv === undefined ? undefined : Number(fromEnv));
+  if (megabytes === undefined) {
+    return undefined;
+  }
+  if (!Number.isFinite(megabytes) || megabytes <= 0) {
+    throw new Error(
+      `Invalid ILOVEPDF_MAX_FILE_SIZE_MB "${fromEnv}" (expected a positive number)`,
+    );
+  }
+  return Math.floor(megabytes * 1024 * 1024);
+}
+
+/**
+ * How many files a task uploads at once: upload_concurrency from the config
+ * file or ILOVEPDF_UPLOAD_CONCURRENCY, 4 by default.
+ */
+export function resolveUploadConcurrency(
+  config: ServerConfig,
+  env: NodeJS.ProcessEnv = process.env,
+): number {
+  const fromEnv = optionalString(env.ILOVEPDF_UPLOAD_CONCURRENCY);
+  const concurrency =
+    config.upload_concurrency ??
+    (fromEnv === undefined ? DEFAULT_UPLOAD_CONCURRENCY : Number(fromEnv));
+  if (
+    !Number.isInteger(concurrency) ||
+    concurrency < 1 ||
+    concurrency > MAX_UPLOAD_CONCURRENCY
+  ) {
+    throw new Error(
+      `Invalid ILOVEPDF_UPLOAD_CONCURRENCY "${fromEnv}" (expected 1-${MAX_UPLOAD_CONCURRENCY})`,
+    );
+  }
+  return concurrency;
+}
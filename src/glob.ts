@@ -0,0 +1,101 @@
+import * as fs from "fs";
+import * as path from "path";
+
+const WILDCARD = /[*?[{]/;
+
+/**
+ * Turns a glob into a case-insensitive regular expression over
+ * "/"-separated relative paths. Supports *, ?, **, [abc] and {a,b}.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = "";
+  let inGroup = false;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      const slash = glob[i + 2] === "/";
+      source += slash ? "(?:.*/)?" : ".*";
+      i += slash ? 2 : 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const end = glob.indexOf("]", i + 1);
+      if (end === -1) {
+        source += "\\[";
+      } else {
+        const set = glob.slice(i + 1, end).replace(/\\/g, "\\\\");
+        source += set.startsWith("!") ? `[^${set.slice(1)}]` : `[${set}]`;
+        i = end;
+      }
+    } else if (char === "{") {
+      inGroup = true;
+      source += "(?:";
+    } else if (char === "}" && inGroup) {
+      inGroup = false;
+      source += ")";
+    } else if (char === "," && inGroup) {
+      source += "|";
+    } else {
+      source += char.replace(/[.+^$()|\\]/g, "\\$&");
+    }
+  }
+  // Case-insensitive, so "*.pdf" also finds scanner output named "SCAN.PDF".
+  return new RegExp(`^${source}$`, "i");
+}
+
+async function walk(
+  dir: string,
+  depth: number,
+  files: string[],
+): Promise<void> {
+  const entries = await fs.promises
+    .readdir(dir, { withFileTypes: true })
+    .catch(() => []);
+  for (const entry of entries) {
+    // Hidden files include the partial downloads this server writes.
+    if (entry.name.startsWith(".")) {
+      continue;
+    }
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (depth > 1) {
+        await walk(full, depth - 1, files);
+      }
+    } else if (entry.isFile()) {
+      files.push(full);
+    }
+  }
+}
+
+/**
+ * Lists the files matching a glob such as "scans/**\/*.pdf", sorted by path.
+ * Relative patterns are resolved against `cwd`; hidden files and directories
+ * are skipped.
+ */
+export async function expandGlob(
+  pattern: string,
+  cwd: string = process.cwd(),
+): Promise<string[]> {
+  const segments = path.resolve(cwd, pattern).split(path.sep);
+  const firstWildcard = segments.findIndex((segment) => WILDCARD.test(segment));
+  if (firstWildcard === -1) {
+    const file = segments.join(path.sep);
+    const stat = await fs.promises.stat(file).catch(() => undefined);
+    return stat?.isFile() ? [file] : [];
+  }
+
+  const base = segments.slice(0, firstWildcard).join(path.sep) || path.sep;
+  const rest = segments.slice(firstWildcard);
+  const depth = rest.includes("**") ? Infinity : rest.length;
+  const matcher = globToRegExp(rest.join("/"));
+
+  const files: string[] = [];
+  await walk(base, depth, files);
+  return files
+    .filter((file) =>
+      matcher.test(path.relative(base, file).split(path.sep).join("/")),
+    )
+    .sort();
+}
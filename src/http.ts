@@ -0,0 +1,187 @@
+import fetch, { type RequestInit, type Response } from "node-fetch";
+
+const MAX_RETRIES = 3;
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 10_000;
+
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+const RETRYABLE_NETWORK_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "EAI_AGAIN",
+]);
+
+/**
+ * An error response from the iLovePDF API. `details` carries the per-parameter
+ * messages the API returns for invalid requests.
+ */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly details?: Record<string, unknown>,
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+export class AuthError extends ApiError {
+  name = "AuthError";
+}
+
+export class CreditsExhaustedError extends ApiError {
+  name = "CreditsExhaustedError";
+}
+
+export class ValidationError extends ApiError {
+  name = "ValidationError";
+}
+
+export class FileTooLargeError extends ApiError {
+  name = "FileTooLargeError";
+}
+
+export class ServerError extends ApiError {
+  name = "ServerError";
+}
+
+interface ErrorBody {
+  message?: string;
+  name?: string;
+  param?: Record<string, unknown>;
+  error?: {
+    type?: string;
+    message?: string;
+    param?: Record<string, unknown>;
+  };
+}
+
+function formatDetails(details: Record<string, unknown>): string {
+  return Object.entries(details)
+    .map(([param, value]) =>
+      typeof value === "string"
+        ? `${param}: ${value}`
+        : `${param}: ${JSON.stringify(value)}`,
+    )
+    .join("; ");
+}
+
+/**
+ * Builds a typed error from a failed response, using the API's JSON error
+ * body when there is one.
+ */
+export async function toApiError(
+  action: string,
+  response: Response,
+): Promise<ApiError> {
+  const text = await response.text().catch(() => "");
+  let body: ErrorBody = {};
+  try {
+    body = JSON.parse(text) as ErrorBody;
+  } catch {
+    body = { message: text || undefined };
+  }
+
+  const apiMessage =
+    body.error?.message ?? body.message ?? response.statusText ?? "";
+  const details = body.error?.param ?? body.param;
+  const type = `${body.error?.type ?? body.name ?? ""} ${apiMessage}`;
+  const status = response.status;
+
+  let message = `${action} failed (${status})`;
+  if (apiMessage) message += `: ${apiMessage}`;
+  if (details && Object.keys(details).length > 0) {
+    message += ` [${formatDetails(details)}]`;
+  }
+
+  if (status === 401) {
+    return new AuthError(message, status, details);
+  }
+  if (status === 402 || /credit/i.test(type)) {
+    return new CreditsExhaustedError(message, status, details);
+  }
+  if (status === 413) {
+    return new FileTooLargeError(message, status, details);
+  }
+  if (status === 400 || status === 422) {
+    return new ValidationError(message, status, details);
+  }
+  if (status >= 500) {
+    return new ServerError(message, status, details);
+  }
+  return new ApiError(message, status, details);
+}
+
+function isRetryableNetworkError(error: unknown): boolean {
+  const code = (error as { code?: string } | null)?.code;
+  return typeof code === "string" && RETRYABLE_NETWORK_CODES.has(code);
+}
+
+function backoffDelay(attempt: number, retryAfter: string | null): number {
+  const seconds = retryAfter === null ? NaN : Number(retryAfter);
+  if (Number.isFinite(seconds) && seconds >= 0) {
+    return Math.min(seconds * 1000, MAX_DELAY_MS);
+  }
+  const ceiling = Math.min(BASE_DELAY_MS * 2 ** attempt, MAX_DELAY_MS);
+  return Math.random() * ceiling;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Sends a request, retrying 429/5xx responses and connection resets with
+ * jittered exponential backoff. `init` is called for every attempt so that
+ * streamed bodies can be rebuilt. Resolves with the successful response and
+ * rejects with an ApiError otherwise. Once `signal` is aborted no further
+ * attempt is made and the backoff wait ends early; node-fetch must never be
+ * handed an already-aborted signal, which it reports on the request body
+ * stream rather than through the returned promise.
+ */
+export async function apiFetch(
+  action: string,
+  url: string,
+  init: () => RequestInit,
+  signal?: AbortSignal,
+): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    signal?.throwIfAborted();
+    let response: Response;
+    try {
+      response = await fetch(url, init());
+    } catch (error) {
+      if (attempt < MAX_RETRIES && isRetryableNetworkError(error)) {
+        await sleep(backoffDelay(attempt, null), signal);
+        continue;
+      }
+      throw error;
+    }
+
+    if (response.ok) {
+      return response;
+    }
+    if (attempt < MAX_RETRIES && RETRYABLE_STATUSES.has(response.status)) {
+      await response.arrayBuffer().catch(() => undefined);
+      await sleep(
+        backoffDelay(attempt, response.headers.get("retry-after")),
+        signal,
+      );
+      continue;
+    }
+    throw await toApiError(action, response);
+  }
+}
@@ -4,18 +4,77 @@ import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js"
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  type CallToolResult,
+  type ProgressToken,
+  type ServerNotification,
 } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
 import FormData from "form-data";
-import fetch from "node-fetch";
+import type { Response } from "node-fetch";
+import * as crypto from "crypto";
 import * as fs from "fs";
 import * as path from "path";
+import { Transform } from "stream";
+import { pipeline } from "stream/promises";
+import {
+  AUTH_MODES,
+  DEFAULT_AUTH_MODE,
+  DEFAULT_REGION,
+  listProfiles,
+  loadConfig,
+  REGIONS,
+  resolveApiBase,
+  resolveCredentials,
+  resolveMaxFileSize,
+  resolveUploadConcurrency,
+  resolveOutputPath,
+  resolveProfile,
+  resolveRegion,
+  resolveServerScheme,
+  type Profile,
+  type Region,
+} from "./config.js";
+import { apiFetch, AuthError } from "./http.js";
+import { extractZipEntry, isZipFile, listZipEntries } from "./zip.js";
+import {
+  describeError,
+  mapConcurrent,
+  type CallOptions,
+  type ReportProgress,
+  type ResultMetrics,
+} from "./calls.js";
+import {
+  inputFilename,
+  isRemoteUrl,
+  taskFilenames,
+  uniqueName,
+} from "./names.js";
+import { BATCH_TOOLS, runBatch } from "./batch.js";
+import { PIPELINE_TOOLS, PREVIOUS_OUTPUT, runPipeline } from "./pipeline.js";
+import {
+  cancelJob,
+  getJob,
+  jobSummary,
+  startJob,
+  updateJob,
+  type Job,
+} from "./jobs.js";
 
-const API_BASE = "https://api.ilovepdf.com/v1";
+const config = loadConfig();
+
+const API_BASE = resolveApiBase(config);
+const SERVER_SCHEME = resolveServerScheme(config);
+const MAX_FILE_SIZE = resolveMaxFileSize(config);
+const UPLOAD_CONCURRENCY = resolveUploadConcurrency(config);
+
+const TOKEN_LIFETIME_MS = 2 * 60 * 60 * 1000;
+const TOKEN_EXPIRY_BUFFER_MS = 5 * 60 * 1000;
+const TOKEN_CLOCK_SKEW_S = 60;
 
 const AuthSchema = z.object({
   public_key: z.string(),
-  secret_key: z.string(),
+  secret_key: z.string().optional(),
+  auth_mode: z.enum(AUTH_MODES).optional(),
 });
 
 type Auth = z.infer<typeof AuthSchema>;
@@ -29,6 +88,226 @@ interface TaskInfo {
 interface UploadedFile {
   server_filename: string;
   filename?: string;
+  // Bytes streamed for a local file; remote URLs are fetched by iLovePDF.
+  bytes?: number;
+}
+
+const ROTATIONS = [0, 90, 180, 270] as const;
+
+/**
+ * A page selection such as "all", "3" or "1-3,7". Ranges must be ascending
+ * and pages start at 1.
+ */
+const PageSelectionSchema = z
+  .string()
+  .trim()
+  .refine(
+    (pages) =>
+      pages === "all" ||
+      pages.split(",").every((part) => {
+        const match = /^\s*(\d+)(?:\s*-\s*(\d+))?\s*$/.exec(part);
+        if (!match) return false;
+        const from = Number(match[1]);
+        const to = match[2] === undefined ? from : Number(match[2]);
+        return from >= 1 && to >= from;
+      }),
+    { message: 'expected "all" or pages like "1-3,7"' },
+  );
+
+const InputFileSchema = z.object({
+  file_path: z.string(),
+  password: z.string().optional(),
+  rotate: z
+    .number()
+    .refine((n) => (ROTATIONS as readonly number[]).includes(n), {
+      message: "rotate must be 0, 90, 180 or 270",
+    })
+    .optional(),
+});
+
+type InputFile = z.infer<typeof InputFileSchema>;
+
+const PDFA_CONFORMANCE = [
+  "pdfa-1b",
+  "pdfa-1a",
+  "pdfa-2b",
+  "pdfa-2u",
+  "pdfa-2a",
+  "pdfa-3b",
+  "pdfa-3u",
+  "pdfa-3a",
+] as const;
+
+const ElementPlacementSchema = z.object({
+  pages: PageSelectionSchema.default("1"),
+  x: z.number(),
+  y: z.number(),
+  width: z.number().positive().optional(),
+  height: z.number().positive().optional(),
+  rotation: z.number().default(0),
+  opacity: z.number().min(0).max(100).default(100),
+});
+
+const TextElementSchema = ElementPlacementSchema.extend({
+  text: z.string().min(1),
+  font_family: z.string().optional(),
+  font_size: z.number().positive().optional(),
+  font_color: z.string().optional(),
+  font_style: z.enum(["Regular", "Bold", "Italic", "Bold italic"]).optional(),
+  text_align: z.enum(["left", "center", "right"]).optional(),
+});
+
+// Images and shapes are both placed files; shapes are SVGs.
+const FileElementSchema = ElementPlacementSchema.extend({
+  file_path: z.string(),
+});
+
+type ElementPlacement = z.infer<typeof ElementPlacementSchema>;
+
+// Fonts accepted by the watermark (PDF and image) and page number tools.
+const PDF_FONTS = [
+  "Arial",
+  "Arial Unicode MS",
+  "Verdana",
+  "Courier",
+  "Times New Roman",
+  "Comic Sans MS",
+  "WenQuanYi Zen Hei",
+  "Lohit Marathi",
+] as const;
+
+const GRAVITIES = [
+  "North",
+  "NorthEast",
+  "NorthWest",
+  "Center",
+  "CenterEast",
+  "CenterWest",
+  "East",
+  "West",
+  "South",
+  "SouthEast",
+  "SouthWest",
+] as const;
+
+const WatermarkLayerSchema = z
+  .object({
+    type: z.enum(["text", "image"]),
+    text: z.string().optional(),
+    file_path: z.string().optional(),
+    position: z.enum(GRAVITIES).default("Center"),
+    vertical_adjustment_percent: z.number().default(0),
+    horizontal_adjustment_percent: z.number().default(0),
+    opacity: z.number().min(1).max(100).default(100),
+    rotation: z.number().default(0),
+    mosaic: z.boolean().default(false),
+    font_family: z.enum(PDF_FONTS).optional(),
+    font_style: z.enum(["Bold", "Italic"]).optional(),
+    font_size: z.number().positive().optional(),
+    font_color: z.string().optional(),
+  })
+  .refine((layer) => (layer.type === "text" ? layer.text : layer.file_path), {
+    message: "text layers need text and image layers need file_path",
+  });
+
+type WatermarkLayer = z.infer<typeof WatermarkLayerSchema>;
+
+// Text styling of watermark_pdf; transparency is an opacity, as in the API.
+const PdfWatermarkStyleSchema = z.object({
+  font_family: z.enum(PDF_FONTS).default("Arial"),
+  font_style: z.enum(["Regular", "Bold", "Italic"]).default("Regular"),
+  font_size: z.number().int().positive().default(14),
+  font_color: z.string().default("#000000"),
+  transparency: z.number().min(1).max(100).default(100),
+  rotation: z.number().default(0),
+});
+
+/**
+ * Page number options. `text` is a template where {n} is the page number and
+ * {p} the page count, e.g. "Page {n} of {p}".
+ */
+const PageNumberOptionsSchema = z
+  .object({
+    pages: PageSelectionSchema.default("all"),
+    starting_number: z.number().int().min(1).default(1),
+    first_page: z.number().int().min(1).optional(),
+    skip_first_page: z.boolean().default(false),
+    facing_pages: z.boolean().default(false),
+    text: z
+      .string()
+      .default("{n}")
+      .refine((text) => text.includes("{n}"), {
+        message: "text must contain {n}",
+      })
+      .refine((text) => !/\{(?![np]\})[^}]*\}/.test(text), {
+        message: "text only supports the {n} and {p} placeholders",
+      }),
+    vertical_position: z.enum(["top", "bottom"]).default("bottom"),
+    horizontal_position: z.enum(["left", "center", "right"]).default("center"),
+    vertical_adjustment: z.number().default(0),
+    horizontal_adjustment: z.number().default(0),
+    font_family: z.enum(PDF_FONTS).default("Arial"),
+    font_style: z.enum(["Regular", "Bold", "Italic"]).default("Regular"),
+    font_size: z.number().positive().default(14),
+    font_color: z.string().default("#000000"),
+  })
+  .refine(
+    (options) => !options.skip_first_page || options.first_page === undefined,
+    { message: "use either skip_first_page or first_page, not both" },
+  )
+  .refine(
+    (options) =>
+      !options.facing_pages || options.horizontal_position !== "center",
+    {
+      message:
+        "facing_pages alternates left and right, so horizontal_position must be left or right",
+    },
+  );
+
+const SIGNATURE_DOCUMENTS = ["signed", "audit", "original"] as const;
+
+const SignatureFieldSchema = z.object({
+  type: z
+    .enum(["signature", "initials", "name", "date", "text", "input"])
+    .default("signature"),
+  file_index: z.number().int().min(0).default(0),
+  pages: PageSelectionSchema.default("1"),
+  x: z.number().min(0),
+  y: z.number().min(0),
+  size: z.number().positive().default(18),
+  content: z.string().optional(),
+});
+
+const SignerSchema = z
+  .object({
+    name: z.string().min(1),
+    email: z.string().email(),
+    role: z.enum(["signer", "validator", "viewer"]).default("signer"),
+    phone: z.string().optional(),
+    access_code: z.string().optional(),
+    fields: z.array(SignatureFieldSchema).default([]),
+  })
+  .refine((signer) => signer.role !== "signer" || signer.fields.length > 0, {
+    message: "signers need at least one field",
+  });
+
+type Signer = z.infer<typeof SignerSchema>;
+
+// A file as referenced in /process: the upload's server name plus the
+// per-file options the tool should apply to it.
+interface TaskFile {
+  server_filename: string;
+  filename: string;
+  password?: string;
+  rotate?: number;
+}
+
+// Where a result goes: a single file, or a directory that ZIP results are
+// extracted into.
+interface OutputTarget {
+  output_path?: string;
+  output_dir?: string;
+  keep_archive?: boolean;
 }
 
 interface ProcessResult {
@@ -36,9 +315,27 @@ interface ProcessResult {
   filesize: number;
   output_filesize: number;
   output_filenumber: number;
-  output_extensions: string[];
+  // The API sends this as a JSON-encoded string, e.g. '["pdf"]'.
+  output_extensions: string[] | string;
   timer: string;
   status: string;
+  validations?: Array<{ server_filename: string; status: string }>;
+}
+
+interface SignatureSigner {
+  name: string;
+  email: string;
+  type: string;
+  status?: string;
+  token_signer?: string;
+}
+
+interface SignatureRequest {
+  token_requester: string;
+  status: string;
+  created?: string;
+  expires?: string;
+  signers?: SignatureSigner[];
 }
 
 const PDF_TOOLS = [
@@ -77,74 +374,219 @@ const IMAGE_TOOLS = [
 type PDFTool = (typeof PDF_TOOLS)[number];
 type ImageTool = (typeof IMAGE_TOOLS)[number];
 
-let cachedToken: string | null = null;
-let tokenExpiry: number = 0;
+// Tools that can run in the background as a job when called with async.
+const ASYNC_TOOLS = new Set<string>([
+  ...PIPELINE_TOOLS,
+  "validate_pdfa",
+  "create_signature_request",
+  "run_pipeline",
+  "batch",
+]);
+
+interface CachedToken {
+  token: string;
+  expiresAt: number;
+}
 
-async function getToken(auth: Auth): Promise<string> {
-  if (cachedToken && Date.now() < tokenExpiry) {
-    return cachedToken;
-  }
+// Tokens are scoped to a project, so each public key gets its own entry.
+const tokenCache = new Map<string, CachedToken>();
 
-  const response = await fetch(`${API_BASE}/auth`, {
+function base64url(input: string | Buffer): string {
+  return Buffer.from(input).toString("base64url");
+}
+
+function signToken(
+  publicKey: string,
+  secretKey: string,
+  now: number = Date.now(),
+): string {
+  const issuedAt = Math.floor(now / 1000) - TOKEN_CLOCK_SKEW_S;
+  const header = { alg: "HS256", typ: "JWT" };
+  const payload = {
+    iss: "ilovepdf-mcp",
+    aud: "",
+    iat: issuedAt,
+    nbf: issuedAt,
+    exp: Math.floor((now + TOKEN_LIFETIME_MS) / 1000),
+    jti: publicKey,
+  };
+
+  const unsigned = `${base64url(JSON.stringify(header))}.${base64url(JSON.stringify(payload))}`;
+  const signature = crypto
+    .createHmac("sha256", secretKey)
+    .update(unsigned)
+    .digest("base64url");
+  return `${unsigned}.${signature}`;
+}
+
+async function requestToken(auth: Auth): Promise<string> {
+  const response = await apiFetch("Auth", `${API_BASE}/auth`, () => ({
     method: "POST",
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify({ public_key: auth.public_key }),
+  }));
+
+  const data = (await response.json()) as { token: string };
+  return data.token;
+}
+
+async function getToken(auth: Auth): Promise<string> {
+  const cached = tokenCache.get(auth.public_key);
+  if (cached && Date.now() < cached.expiresAt) {
+    return cached.token;
+  }
+
+  const mode = auth.auth_mode ?? DEFAULT_AUTH_MODE;
+  if (mode === "local" && !auth.secret_key) {
+    throw new Error("Local token signing requires a secret_key");
+  }
+
+  const token =
+    mode === "local"
+      ? signToken(auth.public_key, auth.secret_key as string)
+      : await requestToken(auth);
+  tokenCache.set(auth.public_key, {
+    token,
+    expiresAt: Date.now() + TOKEN_LIFETIME_MS - TOKEN_EXPIRY_BUFFER_MS,
   });
+  return token;
+}
 
-  if (!response.ok) {
-    throw new Error(`Auth failed: ${response.status}`);
+function invalidateToken(publicKey: string): void {
+  tokenCache.delete(publicKey);
+}
+
+/**
+ * Runs an API call with the project's token. A 401 evicts the cached token
+ * and the call is retried once with a fresh one.
+ */
+async function withToken<T>(
+  auth: Auth,
+  call: (token: string) => Promise<T>,
+): Promise<T> {
+  try {
+    return await call(await getToken(auth));
+  } catch (error) {
+    if (!(error instanceof AuthError)) {
+      throw error;
+    }
+    invalidateToken(auth.public_key);
+    return call(await getToken(auth));
   }
+}
 
-  const data = (await response.json()) as { token: string };
-  cachedToken = data.token;
-  tokenExpiry = Date.now() + 2 * 60 * 60 * 1000 - 5 * 60 * 1000; // 2 hours minus 5 min buffer
-  return cachedToken;
+function taskServerUrl(server: string): string {
+  return `${SERVER_SCHEME}://${server}/v1`;
 }
 
 async function startTask(
   tool: PDFTool | ImageTool | "sign",
   token: string,
-  region: string = "us",
+  region: Region = DEFAULT_REGION,
 ): Promise<TaskInfo> {
-  const response = await fetch(`${API_BASE}/start/${tool}/${region}`, {
-    method: "GET",
-    headers: { Authorization: `Bearer ${token}` },
-  });
-
-  if (!response.ok) {
-    throw new Error(`Start task failed: ${response.status}`);
-  }
+  const response = await apiFetch(
+    "Start task",
+    `${API_BASE}/start/${tool}/${region}`,
+    () => ({
+      method: "GET",
+      headers: { Authorization: `Bearer ${token}` },
+    }),
+  );
 
   return response.json() as Promise<TaskInfo>;
 }
 
+/**
+ * Starts a task and hands it to `work`, deleting the remote task afterwards
+ * whether or not `work` succeeded. Cleanup failures are logged to stderr so
+ * they never mask the original error.
+ */
+async function withTask<T>(
+  auth: Auth,
+  tool: PDFTool | ImageTool | "sign",
+  region: Region,
+  keepRemoteTask: boolean,
+  work: (taskInfo: TaskInfo) => Promise<T>,
+): Promise<T> {
+  const taskInfo = await withToken(auth, (token) =>
+    startTask(tool, token, region),
+  );
+
+  try {
+    return await work(taskInfo);
+  } finally {
+    if (keepRemoteTask) {
+      console.error(
+        `Keeping remote task ${taskInfo.task} on ${taskInfo.server}`,
+      );
+    } else {
+      await withToken(auth, (token) =>
+        deleteTask(taskInfo.server, taskInfo.task, token),
+      ).catch((error) =>
+        console.error(
+          `Failed to delete task ${taskInfo.task}: ${describeError(error)}`,
+        ),
+      );
+    }
+  }
+}
+
 async function uploadFile(
   server: string,
   task: string,
   token: string,
   filePath: string,
+  signal?: AbortSignal,
+  onBytes?: (sent: number, total: number) => void,
 ): Promise<UploadedFile> {
-  const formData = new FormData();
-  formData.append("task", task);
-  formData.append(
-    "file",
-    await import("fs").then((fs) => fs.default.createReadStream(filePath)),
-  );
-
-  const response = await fetch(`https://${server}/v1/upload`, {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${token}`,
-      ...formData.getHeaders(),
-    },
-    body: formData,
-  });
+  const { size } = await fs.promises.stat(filePath);
+  let bytes = 0;
+  // The file stream of the latest attempt; an aborted request leaves it
+  // paused, so abort closes it.
+  let source: fs.ReadStream | undefined;
+  const onAbort = () => source?.destroy();
+  signal?.addEventListener("abort", onAbort, { once: true });
+  try {
+    const response = await apiFetch(
+      "Upload",
+      `${taskServerUrl(server)}/upload`,
+      () => {
+        bytes = 0;
+        const counter = new Transform({
+          transform(chunk: Buffer, _encoding, callback) {
+            bytes += chunk.length;
+            onBytes?.(bytes, size);
+            callback(null, chunk);
+          },
+        });
+        source = fs.createReadStream(filePath).on("error", (error) => {
+          counter.destroy(error);
+        });
+        const formData = new FormData();
+        formData.append("task", task);
+        formData.append("file", source.pipe(counter), {
+          filename: path.basename(filePath),
+          knownLength: size,
+        });
+        return {
+          method: "POST",
+          headers: {
+            Authorization: `Bearer ${token}`,
+            ...formData.getHeaders(),
+            "Content-Length": String(formData.getLengthSync()),
+          },
+          body: formData,
+          signal,
+        };
+      },
+      signal,
+    );
 
-  if (!response.ok) {
-    throw new Error(`Upload failed: ${response.status}`);
+    const uploaded = (await response.json()) as UploadedFile;
+    return { ...uploaded, bytes };
+  } finally {
+    signal?.removeEventListener("abort", onAbort);
   }
-
-  return response.json() as Promise<UploadedFile>;
 }
 
 async function uploadUrl(
@@ -152,23 +594,27 @@ async function uploadUrl(
   task: string,
   token: string,
   url: string,
+  signal?: AbortSignal,
 ): Promise<UploadedFile> {
-  const formData = new FormData();
-  formData.append("task", task);
-  formData.append("cloud_file", url);
-
-  const response = await fetch(`https://${server}/v1/upload`, {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${token}`,
-      ...formData.getHeaders(),
+  const response = await apiFetch(
+    "Upload",
+    `${taskServerUrl(server)}/upload`,
+    () => {
+      const formData = new FormData();
+      formData.append("task", task);
+      formData.append("cloud_file", url);
+      return {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${token}`,
+          ...formData.getHeaders(),
+        },
+        body: formData,
+        signal,
+      };
     },
-    body: formData,
-  });
-
-  if (!response.ok) {
-    throw new Error(`Upload failed: ${response.status}`);
-  }
+    signal,
+  );
 
   return response.json() as Promise<UploadedFile>;
 }
@@ -178,13 +624,9 @@ async function processFiles(
   task: string,
   token: string,
   tool: string,
-  files: Array<{
-    server_filename: string;
-    filename: string;
-    password?: string;
-    rotate?: number;
-  }>,
+  files: TaskFile[],
   options: Record<string, unknown> = {},
+  signal?: AbortSignal,
 ): Promise<ProcessResult> {
   const body = {
     task,
@@ -198,19 +640,20 @@ async function processFiles(
     ...options,
   };
 
-  const response = await fetch(`https://${server}/v1/process`, {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${token}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify(body),
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Process failed: ${response.status} - ${error}`);
-  }
+  const response = await apiFetch(
+    "Process",
+    `${taskServerUrl(server)}/process`,
+    () => ({
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${token}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+      signal,
+    }),
+    signal,
+  );
 
   return response.json() as Promise<ProcessResult>;
 }
@@ -219,20 +662,253 @@ async function downloadResult(
   server: string,
   task: string,
   token: string,
+  output: OutputTarget,
+  downloadFilename: string,
+  signal?: AbortSignal,
+): Promise<string[]> {
+  const response = await apiFetch(
+    "Download",
+    `${taskServerUrl(server)}/download/${task}`,
+    () => ({
+      method: "GET",
+      headers: { Authorization: `Bearer ${token}` },
+      signal,
+    }),
+    signal,
+  );
+
+  const filename =
+    contentDispositionFilename(response.headers.get("content-disposition")) ??
+    downloadFilename;
+  if (output.output_dir !== undefined) {
+    await fs.promises.mkdir(output.output_dir, { recursive: true });
+  }
+  const temp = tempPath(
+    output.output_dir !== undefined
+      ? path.join(output.output_dir, filename)
+      : (output.output_path as string),
+  );
+  try {
+    await pipeline(responseBody(response), fs.createWriteStream(temp));
+    return await saveOutput(temp, filename, output);
+  } finally {
+    await fs.promises.rm(temp, { force: true });
+  }
+}
+
+function responseBody(response: Response): NodeJS.ReadableStream {
+  if (!response.body) {
+    throw new Error(`Empty response body from ${response.url}`);
+  }
+  return response.body;
+}
+
+// A hidden sibling of `target`, so the final rename stays on one file system.
+function tempPath(target: string): string {
+  return path.join(
+    path.dirname(target),
+    `.${path.basename(target)}.${crypto.randomBytes(4).toString("hex")}.part`,
+  );
+}
+
+/**
+ * Streams a response to disk through a temporary file that is renamed into
+ * place once complete, so a failed download never leaves a partial file.
+ */
+async function writeResponse(
+  response: Response,
   outputPath: string,
 ): Promise<void> {
-  const response = await fetch(`https://${server}/v1/download/${task}`, {
-    method: "GET",
-    headers: { Authorization: `Bearer ${token}` },
-  });
+  const temp = tempPath(outputPath);
+  try {
+    await pipeline(responseBody(response), fs.createWriteStream(temp));
+    await fs.promises.rename(temp, outputPath);
+  } finally {
+    await fs.promises.rm(temp, { force: true });
+  }
+}
+
+/**
+ * The file name of a download. Only the RFC 5987 `filename*=UTF-8''` form is
+ * percent-encoded; a plain `filename` is used as sent, so "50% off.pdf"
+ * survives, and a malformed encoding falls back to its raw text.
+ */
+function contentDispositionFilename(header: string | null): string | undefined {
+  const encoded = /filename\*=UTF-8''([^;]+)/i.exec(header ?? "");
+  if (encoded) {
+    try {
+      return path.basename(decodeURIComponent(encoded[1]));
+    } catch (error) {
+      if (!(error instanceof URIError)) {
+        throw error;
+      }
+      return path.basename(encoded[1]);
+    }
+  }
+  const plain = /filename="?([^";]+)"?/i.exec(header ?? "");
+  return plain ? path.basename(plain[1]) : undefined;
+}
+
+const EXTENSION_ALIASES: Record<string, string> = {
+  jpeg: "jpg",
+  tif: "tiff",
+  htm: "html",
+};
+
+function normalizedExtension(file: string): string {
+  const extension = path.extname(file).slice(1).toLowerCase();
+  return EXTENSION_ALIASES[extension] ?? extension;
+}
+
+/**
+ * The extension of the file `tool` makes of `input`, or undefined when that
+ * cannot be told before the task runs. Image tools keep their input's
+ * format unless they convert it.
+ */
+function resultExtension(
+  tool: PDFTool | ImageTool,
+  input: string,
+  options: Record<string, unknown>,
+): string | undefined {
+  switch (tool) {
+    case "extract":
+      return "txt";
+    case "pdfjpg":
+      return "jpg";
+    case "removebackgroundimage":
+      return "png";
+    case "convertimage":
+      return typeof options.to === "string"
+        ? normalizedExtension(`output.${options.to}`)
+        : undefined;
+    case "validatepdfa":
+      return undefined;
+  }
+  if ((IMAGE_TOOLS as readonly string[]).includes(tool)) {
+    return normalizedExtension(inputFilename(input)) || undefined;
+  }
+  return "pdf";
+}
+
+/**
+ * Rejects an output_path that cannot hold the result before a task is
+ * started. Several results arrive as a ZIP archive, so .zip always passes
+ * here; saveOutput checks the downloaded file again.
+ */
+function checkOutputExtension(
+  outputPath: string,
+  expected: string | undefined,
+): void {
+  const actual = normalizedExtension(outputPath);
+  if (expected && actual && actual !== expected && actual !== "zip") {
+    throw new Error(
+      `The result will be a .${expected} file but output_path ends in .${actual}; use a .${expected} output_path`,
+    );
+  }
+}
+
+/**
+ * Moves a downloaded result into place. With output_dir, ZIP archives are
+ * extracted into the directory under their entry names; with output_path,
+ * the path's extension has to match what was downloaded. Returns the files
+ * written.
+ */
+async function saveOutput(
+  download: string,
+  filename: string,
+  output: OutputTarget,
+): Promise<string[]> {
+  const zip = await isZipFile(download);
+
+  if (output.output_dir !== undefined) {
+    const dir = output.output_dir;
+    if (!zip) {
+      const target = path.join(dir, path.basename(filename));
+      await fs.promises.rename(download, target);
+      return [target];
+    }
+
+    const written: string[] = [];
+    const used = new Set<string>();
+    for (const entry of await listZipEntries(download)) {
+      // Entries are flattened so that names from the archive can never
+      // point outside the output directory.
+      const target = path.join(
+        dir,
+        uniqueName(path.basename(entry.name), used),
+      );
+      const temp = tempPath(target);
+      try {
+        await extractZipEntry(download, entry, temp);
+        await fs.promises.rename(temp, target);
+      } finally {
+        await fs.promises.rm(temp, { force: true });
+      }
+      written.push(target);
+    }
+    if (output.keep_archive) {
+      const archive = path.join(
+        dir,
+        normalizedExtension(filename) === "zip"
+          ? path.basename(filename)
+          : "output.zip",
+      );
+      await fs.promises.rename(download, archive);
+      written.push(archive);
+    }
+    return written;
+  }
 
-  if (!response.ok) {
-    throw new Error(`Download failed: ${response.status}`);
+  const outputPath = output.output_path as string;
+  const expected = zip ? "zip" : normalizedExtension(filename);
+  const actual = normalizedExtension(outputPath);
+  if (expected && actual && expected !== actual) {
+    throw new Error(
+      zip
+        ? `The result is a ZIP archive (${filename}) but output_path ends in .${actual}; pass output_dir to extract it or use a .zip output_path`
+        : `The result is a .${expected} file (${filename}) but output_path ends in .${actual}; use a .${expected} output_path`,
+    );
   }
+  await fs.promises.rename(download, outputPath);
+  return [outputPath];
+}
+
+async function createSignature(
+  server: string,
+  task: string,
+  token: string,
+  body: Record<string, unknown>,
+): Promise<SignatureRequest> {
+  const response = await apiFetch(
+    "Create signature",
+    `${taskServerUrl(server)}/signature`,
+    () => ({
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${token}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ task, ...body }),
+    }),
+  );
+
+  return response.json() as Promise<SignatureRequest>;
+}
 
-  const buffer = await response.buffer();
-  const fs = await import("fs");
-  await fs.promises.writeFile(outputPath, buffer);
+/**
+ * Calls one of the iLoveSign management endpoints for an existing signature
+ * request, identified by its requester token.
+ */
+async function signatureRequest(
+  action: string,
+  method: "GET" | "POST" | "PUT",
+  endpoint: string,
+  token: string,
+): Promise<Response> {
+  return apiFetch(action, `${API_BASE}/signature/${endpoint}`, () => ({
+    method,
+    headers: { Authorization: `Bearer ${token}` },
+  }));
 }
 
 async function deleteTask(
@@ -240,12 +916,371 @@ async function deleteTask(
   task: string,
   token: string,
 ): Promise<void> {
-  await fetch(`https://${server}/v1/task/${task}`, {
-    method: "DELETE",
-    headers: { Authorization: `Bearer ${token}` },
+  await apiFetch(
+    "Delete task",
+    `${taskServerUrl(server)}/task/${task}`,
+    () => ({
+      method: "DELETE",
+      headers: { Authorization: `Bearer ${token}` },
+    }),
+  );
+}
+
+function outputExtensions(value: string[] | string | undefined): string[] {
+  if (Array.isArray(value)) {
+    return value;
+  }
+  try {
+    const parsed: unknown = JSON.parse(value ?? "[]");
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return value ? [value] : [];
+  }
+}
+
+function buildMetrics(
+  tool: string,
+  taskInfo: TaskInfo,
+  region: Region,
+  uploads: UploadedFile[],
+  processResult: ProcessResult,
+  output: OutputTarget | undefined,
+  outputPaths: string[],
+  elapsedMs: number,
+): ResultMetrics {
+  const inputSize = processResult.filesize ?? 0;
+  const outputSize = processResult.output_filesize ?? 0;
+  const ratio = inputSize > 0 ? outputSize / inputSize : null;
+  const extensions = outputExtensions(processResult.output_extensions);
+  const seconds = Number(processResult.timer);
+  return {
+    tool,
+    task: taskInfo.task,
+    region,
+    output_path: output?.output_path ?? output?.output_dir,
+    output_paths: outputPaths,
+    input_files: uploads.length,
+    uploaded_bytes: uploads.reduce(
+      (sum, upload) => sum + (upload.bytes ?? 0),
+      0,
+    ),
+    input_size: inputSize,
+    output_size: outputSize,
+    compression_ratio: ratio === null ? null : Number(ratio.toFixed(4)),
+    size_reduction_percent:
+      ratio === null ? null : Number(((1 - ratio) * 100).toFixed(2)),
+    output_files: processResult.output_filenumber ?? 0,
+    output_format:
+      path.extname(processResult.download_filename ?? "").slice(1) ||
+      extensions[0] ||
+      "unknown",
+    output_extensions: extensions,
+    processing_time_ms: Number.isFinite(seconds)
+      ? Math.round(seconds * 1000)
+      : null,
+    elapsed_ms: elapsedMs,
+    remaining_credits: taskInfo.remaining_credits,
+  };
+}
+
+/**
+ * A tool result with the human-readable summary first and `data` as a JSON
+ * block, mirrored in structuredContent for clients that read it.
+ */
+function structuredResult(text: string, data: object): CallToolResult {
+  return {
+    content: [
+      { type: "text", text },
+      { type: "text", text: JSON.stringify(data, null, 2) },
+    ],
+    structuredContent: { ...data },
+  };
+}
+
+function toolResult(text: string, metrics: ResultMetrics): CallToolResult {
+  if (metrics.output_paths.length > 1) {
+    text += `\nFiles:\n${metrics.output_paths.map((file) => `- ${file}`).join("\n")}`;
+  }
+  return structuredResult(text, metrics);
+}
+
+const PROGRESS_INTERVAL_MS = 250;
+
+/**
+ * Sends MCP progress notifications for a call, or nothing when the client
+ * sent no progress token. Updates that arrive sooner than
+ * PROGRESS_INTERVAL_MS after the last one are dropped unless they start a
+ * step, and progress always increases as the protocol requires.
+ */
+function progressReporter(
+  progressToken: ProgressToken | undefined,
+  sendNotification: (notification: ServerNotification) => Promise<void>,
+): ReportProgress {
+  let last = -1;
+  let lastSent = 0;
+  return (progress, total, message) => {
+    if (progressToken === undefined || progress <= last) {
+      return;
+    }
+    const now = Date.now();
+    if (!Number.isInteger(progress) && now - lastSent < PROGRESS_INTERVAL_MS) {
+      return;
+    }
+    last = progress;
+    lastSent = now;
+    sendNotification({
+      method: "notifications/progress",
+      params: { progressToken, progress, total, message },
+    }).catch(() => undefined);
+  };
+}
+
+/**
+ * Reads the inputs of a multi-file tool from either `files` (with per-file
+ * password/rotate) or the plain `file_paths` list.
+ */
+function parseInputFiles(args: Record<string, unknown>): InputFile[] {
+  if (args.files !== undefined) {
+    return z.array(InputFileSchema).min(1).parse(args.files);
+  }
+  if (Array.isArray(args.file_paths) && args.file_paths.length > 0) {
+    return z
+      .array(z.string())
+      .parse(args.file_paths)
+      .map((file_path) => ({ file_path }));
+  }
+  throw new Error("Either file_paths or files is required");
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Rejects missing local files and unsupported URLs before a task is started,
+ * so bad input never costs credits.
+ */
+async function validateInputs(files: InputFile[]): Promise<void> {
+  for (const { file_path } of files) {
+    if (isRemoteUrl(file_path)) {
+      try {
+        new URL(file_path);
+      } catch {
+        throw new Error(`Invalid URL: ${file_path}`);
+      }
+    } else if (/^[a-z][a-z0-9+.-]*:\/\//i.test(file_path)) {
+      throw new Error(
+        `Unsupported URL scheme: ${file_path} (only http and https are supported)`,
+      );
+    } else {
+      await fs.promises.access(file_path, fs.constants.R_OK).catch(() => {
+        throw new Error(`Input file not found or not readable: ${file_path}`);
+      });
+      const stat = await fs.promises.stat(file_path);
+      if (!stat.isFile()) {
+        throw new Error(`Input is not a file: ${file_path}`);
+      }
+      if (MAX_FILE_SIZE !== undefined && stat.size > MAX_FILE_SIZE) {
+        throw new Error(
+          `${file_path} is ${formatMegabytes(stat.size)}, over the ${formatMegabytes(MAX_FILE_SIZE)} limit set by max_file_size_mb`,
+        );
+      }
+    }
+  }
+}
+
+function placement(element: ElementPlacement): Record<string, unknown> {
+  return {
+    pages: element.pages,
+    coordinates: { x: element.x, y: element.y },
+    dimensions:
+      element.width !== undefined && element.height !== undefined
+        ? { w: element.width, h: element.height }
+        : undefined,
+    rotation: element.rotation,
+    opacity: element.opacity,
+  };
+}
+
+/**
+ * Builds the editpdf `elements` list. `assets` holds the server filenames of
+ * the uploaded images followed by those of the shapes.
+ */
+function buildEditElements(
+  texts: z.infer<typeof TextElementSchema>[],
+  images: z.infer<typeof FileElementSchema>[],
+  shapes: z.infer<typeof FileElementSchema>[],
+  assets: string[],
+): Record<string, unknown>[] {
+  return [
+    ...texts.map((element) => ({
+      type: "text",
+      ...placement(element),
+      text: element.text,
+      font_family: element.font_family,
+      font_size: element.font_size,
+      font_color: element.font_color,
+      font_style: element.font_style,
+      text_align: element.text_align,
+    })),
+    ...images.map((element, i) => ({
+      type: "image",
+      ...placement(element),
+      server_filename: assets[i],
+    })),
+    ...shapes.map((element, i) => ({
+      type: "svg",
+      ...placement(element),
+      server_filename: assets[images.length + i],
+    })),
+  ];
+}
+
+/**
+ * Builds the watermarkimage `elements` list. `assets` holds the server
+ * filenames of the image layers in order.
+ */
+function buildWatermarkLayers(
+  layers: WatermarkLayer[],
+  assets: string[],
+): Record<string, unknown>[] {
+  let asset = 0;
+  return layers.map((layer) => ({
+    type: layer.type,
+    text: layer.type === "text" ? layer.text : undefined,
+    image: layer.type === "image" ? assets[asset++] : undefined,
+    gravity: layer.position,
+    vertical_adjustment_percent: layer.vertical_adjustment_percent,
+    horizontal_adjustment_percent: layer.horizontal_adjustment_percent,
+    transparency: layer.opacity,
+    rotation: layer.rotation,
+    mosaic: layer.mosaic,
+    font_family: layer.font_family,
+    font_style: layer.font_style,
+    font_size: layer.font_size,
+    font_color: layer.font_color,
+  }));
+}
+
+/**
+ * Builds the iLoveSign `signers` list. Field positions are given from the
+ * top-left corner; the API expects "x -y".
+ */
+function buildSigners(
+  signers: Signer[],
+  serverFilenames: string[],
+): Record<string, unknown>[] {
+  return signers.map((signer) => {
+    const files = new Map<number, Record<string, unknown>[]>();
+    for (const field of signer.fields) {
+      const elements = files.get(field.file_index) ?? [];
+      elements.push({
+        type: field.type,
+        position: `${field.x} -${field.y}`,
+        pages: field.pages,
+        size: field.size,
+        content: field.content,
+      });
+      files.set(field.file_index, elements);
+    }
+
+    return {
+      name: signer.name,
+      email: signer.email,
+      type: signer.role,
+      phone: signer.phone,
+      access_code: signer.access_code,
+      files: [...files].map(([index, elements]) => ({
+        server_filename: serverFilenames[index],
+        elements,
+      })),
+    };
   });
 }
 
+const ELEMENT_PLACEMENT_PROPERTIES = {
+  pages: {
+    type: "string",
+    default: "1",
+    description: "Pages to place the element on, e.g. '1', '1-3,7' or 'all'",
+  },
+  x: { type: "number", description: "Horizontal position in points" },
+  y: { type: "number", description: "Vertical position in points" },
+  width: { type: "number" },
+  height: { type: "number" },
+  rotation: { type: "number", default: 0 },
+  opacity: { type: "number", default: 100, description: "Opacity 0-100" },
+};
+
+const FILES_PROPERTY = {
+  type: "array",
+  description:
+    "Alternative to file_paths that sets a password and rotation per input",
+  items: {
+    type: "object",
+    properties: {
+      file_path: { type: "string", description: "Path or http(s) URL" },
+      password: { type: "string", description: "Password to open this file" },
+      rotate: { type: "number", enum: [...ROTATIONS] },
+    },
+    required: ["file_path"],
+  },
+};
+
+const CREDENTIAL_PROPERTIES = {
+  public_key: {
+    type: "string",
+    description: "Overrides the configured project public key",
+  },
+  secret_key: {
+    type: "string",
+    description: "Overrides the configured project secret key",
+  },
+  profile: {
+    type: "string",
+    description: "Named credential profile from the config file",
+  },
+};
+
+const COMMON_PROPERTIES = {
+  ...CREDENTIAL_PROPERTIES,
+  region: {
+    type: "string",
+    enum: [...REGIONS],
+    description: "Region of the task server; defaults to the profile's",
+  },
+  keep_remote_task: {
+    type: "boolean",
+    default: false,
+    description:
+      "Debugging aid: leave the task and its files on iLovePDF's servers",
+  },
+  async: {
+    type: "boolean",
+    default: false,
+    description:
+      "Return a job id at once and run in the background; follow it with get_job_status and get_job_result",
+  },
+};
+
+const JOB_ID_PROPERTIES = {
+  job_id: { type: "string", description: "Job id returned by an async call" },
+};
+
+// For tools whose result can be several files, delivered as a ZIP archive.
+const OUTPUT_DIR_PROPERTIES = {
+  output_dir: {
+    type: "string",
+    description:
+      "Directory to write results to; ZIP results are extracted into it. Use instead of output_path",
+  },
+  keep_archive: {
+    type: "boolean",
+    default: false,
+    description: "With output_dir, also keep the downloaded ZIP archive",
+  },
+};
+
 const server = new Server(
   { name: "ilovepdf-mcp", version: "1.0.0" },
   { capabilities: { tools: {} } },
@@ -262,10 +1297,26 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
         inputSchema: {
           type: "object",
           properties: {
-            public_key: { type: "string", description: "Project public key" },
-            secret_key: { type: "string", description: "Project secret key" },
+            ...CREDENTIAL_PROPERTIES,
+            auth_mode: {
+              type: "string",
+              enum: ["local", "remote"],
+              description:
+                "local=sign the token with the secret key, remote=request it from /auth",
+            },
           },
-          required: ["public_key", "secret_key"],
+          required: [],
+        },
+      },
+
+      {
+        name: "list_profiles",
+        description:
+          "List the credential profiles configured for this server. Secret keys are never returned.",
+        inputSchema: {
+          type: "object",
+          properties: {},
+          required: [],
         },
       },
 
@@ -277,9 +1328,11 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
         inputSchema: {
           type: "object",
           properties: {
-            public_key: { type: "string" },
-            secret_key: { type: "string" },
-            file_path: { type: "string", description: "Path to PDF file" },
+            ...COMMON_PROPERTIES,
+            file_path: {
+              type: "string",
+              description: "Path or http(s) URL of the PDF file",
+            },
             output_path: {
               type: "string",
               description: "Path for output file",
@@ -290,7 +1343,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               default: "recommended",
             },
           },
-          required: ["public_key", "secret_key", "file_path", "output_path"],
+          required: ["file_path", "output_path"],
         },
       },
 
@@ -302,19 +1355,20 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
         inputSchema: {
           type: "object",
           properties: {
-            public_key: { type: "string" },
-            secret_key: { type: "string" },
+            ...COMMON_PROPERTIES,
             file_paths: {
               type: "array",
               items: { type: "string" },
-              description: "Paths to PDF files in merge order",
+              description:
+                "Paths or http(s) URLs of the PDF files in merge order",
             },
+            files: FILES_PROPERTY,
             output_path: {
               type: "string",
               description: "Path for output file",
             },
           },
-          required: ["public_key", "secret_key", "file_paths", "output_path"],
+          required: ["output_path"],
         },
       },
 
@@ -325,13 +1379,16 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
         inputSchema: {
           type: "object",
           properties: {
-            public_key: { type: "string" },
-            secret_key: { type: "string" },
-            file_path: { type: "string", description: "Path to PDF file" },
+            ...COMMON_PROPERTIES,
+            file_path: {
+              type: "string",
+              description: "Path or http(s) URL of the PDF file",
+            },
             output_path: {
               type: "string",
-              description: "Path for output ZIP file",
+              description: "Path for the output ZIP file",
             },
+            ...OUTPUT_DIR_PROPERTIES,
             mode: {
               type: "string",
               enum: ["ranges", "fixed_range", "remove_pages"],
@@ -350,7 +1407,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               description: "Pages to remove e.g., '1,4,8-12'",
             },
           },
-          required: ["public_key", "secret_key", "file_path", "output_path"],
+          required: ["file_path"],
         },
       },
 
@@ -361,13 +1418,16 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
         inputSchema: {
           type: "object",
           properties: {
-            public_key: { type: "string" },
-            secret_key: { type: "string" },
-            file_path: { type: "string", description: "Path to PDF file" },
+            ...COMMON_PROPERTIES,
+            file_path: {
+              type: "string",
+              description: "Path or http(s) URL of the PDF file",
+            },
             output_path: {
               type: "string",
-              description: "Path for output ZIP file",
+              description: "Path for the output ZIP file",
             },
+            ...OUTPUT_DIR_PROPERTIES,
             mode: {
               type: "string",
               enum: ["pages", "extract"],
@@ -376,7 +1436,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
                 "pages=convert each page, extract=extract embedded images",
             },
           },
-          required: ["public_key", "secret_key", "file_path", "output_path"],
+          required: ["file_path"],
         },
       },
 
@@ -387,13 +1447,13 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
         inputSchema: {
           type: "object",
           properties: {
-            public_key: { type: "string" },
-            secret_key: { type: "string" },
+            ...COMMON_PROPERTIES,
             file_paths: {
               type: "array",
               items: { type: "string" },
-              description: "Paths to JPG files",
+              description: "Paths or http(s) URLs of the JPG files",
             },
+            files: FILES_PROPERTY,
             output_path: {
               type: "string",
               description: "Path for output PDF file",
@@ -414,7 +1474,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               default: "fit",
             },
           },
-          required: ["public_key", "secret_key", "file_paths", "output_path"],
+          required: ["output_path"],
         },
       },
 
@@ -425,16 +1485,18 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
         inputSchema: {
           type: "object",
           properties: {
-            public_key: { type: "string" },
-            secret_key: { type: "string" },
-            file_path: { type: "string", description: "Path to PDF file" },
-            output_path: {
+            ...COMMON_PROPERTIES,
+            file_path: {
+              type: "string",
+              description: "Path or http(s) URL of the PDF file",
+            },
+            output_path: {
               type: "string",
               description: "Path for output file",
             },
             password: { type: "string", description: "PDF password" },
           },
-          required: ["public_key", "secret_key", "file_path", "output_path"],
+          required: ["file_path", "output_path"],
         },
       },
 
@@ -445,22 +1507,18 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
         inputSchema: {
           type: "object",
           properties: {
-            public_key: { type: "string" },
-            secret_key: { type: "string" },
-            file_path: { type: "string", description: "Path to PDF file" },
+            ...COMMON_PROPERTIES,
+            file_path: {
+              type: "string",
+              description: "Path or http(s) URL of the PDF file",
+            },
             output_path: {
               type: "string",
               description: "Path for output file",
             },
             password: { type: "string", description: "Password to set" },
           },
-          required: [
-            "public_key",
-            "secret_key",
-            "file_path",
-            "output_path",
-            "password",
-          ],
+          required: ["file_path", "output_path", "password"],
         },
       },
 
@@ -471,16 +1529,18 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
         inputSchema: {
           type: "object",
           properties: {
-            public_key: { type: "string" },
-            secret_key: { type: "string" },
-            file_path: { type: "string", description: "Path to PDF file" },
+            ...COMMON_PROPERTIES,
+            file_path: {
+              type: "string",
+              description: "Path or http(s) URL of the PDF file",
+            },
             output_path: {
               type: "string",
               description: "Path for output file",
             },
             rotation: { type: "number", enum: [0, 90, 180, 270], default: 90 },
           },
-          required: ["public_key", "secret_key", "file_path", "output_path"],
+          required: ["file_path", "output_path"],
         },
       },
 
@@ -491,15 +1551,56 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
         inputSchema: {
           type: "object",
           properties: {
-            public_key: { type: "string" },
-            secret_key: { type: "string" },
-            file_path: { type: "string", description: "Path to PDF file" },
+            ...COMMON_PROPERTIES,
+            file_path: {
+              type: "string",
+              description: "Path or http(s) URL of the PDF file",
+            },
             output_path: {
               type: "string",
               description: "Path for output file",
             },
-            text: { type: "string", description: "Watermark text" },
-            mode: { type: "string", enum: ["text", "image"], default: "text" },
+            text: {
+              type: "string",
+              description: "Watermark text, for text mode",
+            },
+            image_path: {
+              type: "string",
+              description:
+                "Path or http(s) URL of a JPG or PNG watermark, for image mode",
+            },
+            mode: {
+              type: "string",
+              enum: ["text", "image"],
+              default: "text",
+              description: "Defaults to image when image_path is given",
+            },
+            pages: {
+              type: "string",
+              default: "all",
+              description: "Pages to watermark, e.g. 'all' or '1-3,7'",
+            },
+            mosaic: {
+              type: "boolean",
+              default: false,
+              description: "Tile the watermark across the page",
+            },
+            layer: {
+              type: "string",
+              enum: ["above", "below"],
+              default: "above",
+              description: "Stamp over or under the page content",
+            },
+            font_family: {
+              type: "string",
+              enum: [...PDF_FONTS],
+              default: "Arial",
+            },
+            font_style: {
+              type: "string",
+              enum: ["Regular", "Bold", "Italic"],
+              default: "Regular",
+            },
             font_size: { type: "number", default: 14 },
             font_color: { type: "string", default: "#000000" },
             transparency: {
@@ -508,19 +1609,34 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               description: "Opacity 1-100",
             },
             rotation: { type: "number", default: 0 },
-            position: {
+            vertical_position: {
               type: "string",
-              enum: ["center", "top", "bottom"],
+              enum: ["top", "middle", "bottom"],
+              default: "middle",
+            },
+            horizontal_position: {
+              type: "string",
+              enum: ["left", "center", "right"],
               default: "center",
             },
+            vertical_adjustment: {
+              type: "number",
+              default: 0,
+              description: "Shift from vertical_position in pixels",
+            },
+            horizontal_adjustment: {
+              type: "number",
+              default: 0,
+              description: "Shift from horizontal_position in pixels",
+            },
+            position: {
+              type: "string",
+              enum: ["top", "center", "bottom"],
+              description:
+                "Deprecated: use vertical_position (center maps to middle)",
+            },
           },
-          required: [
-            "public_key",
-            "secret_key",
-            "file_path",
-            "output_path",
-            "text",
-          ],
+          required: ["file_path", "output_path"],
         },
       },
 
@@ -531,14 +1647,46 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
         inputSchema: {
           type: "object",
           properties: {
-            public_key: { type: "string" },
-            secret_key: { type: "string" },
-            file_path: { type: "string", description: "Path to PDF file" },
+            ...COMMON_PROPERTIES,
+            file_path: {
+              type: "string",
+              description: "Path or http(s) URL of the PDF file",
+            },
             output_path: {
               type: "string",
               description: "Path for output file",
             },
-            starting_number: { type: "number", default: 1 },
+            pages: {
+              type: "string",
+              default: "all",
+              description: "Pages to number, e.g. 'all' or '3-12'",
+            },
+            starting_number: {
+              type: "number",
+              default: 1,
+              description: "Number shown on the first numbered page",
+            },
+            first_page: {
+              type: "number",
+              description: "First page that gets a number",
+            },
+            skip_first_page: {
+              type: "boolean",
+              default: false,
+              description: "Leave the first page (e.g. a cover) unnumbered",
+            },
+            facing_pages: {
+              type: "boolean",
+              default: false,
+              description:
+                "Alternate numbers between left and right for double-sided layouts; horizontal_position sets the odd pages",
+            },
+            text: {
+              type: "string",
+              default: "{n}",
+              description:
+                "Number template: {n} is the page number and {p} the page count, e.g. 'Page {n} of {p}'",
+            },
             vertical_position: {
               type: "string",
               enum: ["top", "bottom"],
@@ -549,29 +1697,52 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               enum: ["left", "center", "right"],
               default: "center",
             },
+            vertical_adjustment: {
+              type: "number",
+              default: 0,
+              description: "Shift from vertical_position in pixels",
+            },
+            horizontal_adjustment: {
+              type: "number",
+              default: 0,
+              description: "Shift from horizontal_position in pixels",
+            },
+            font_family: {
+              type: "string",
+              enum: [...PDF_FONTS],
+              default: "Arial",
+            },
+            font_style: {
+              type: "string",
+              enum: ["Regular", "Bold", "Italic"],
+              default: "Regular",
+            },
             font_size: { type: "number", default: 14 },
             font_color: { type: "string", default: "#000000" },
           },
-          required: ["public_key", "secret_key", "file_path", "output_path"],
+          required: ["file_path", "output_path"],
         },
       },
 
       // PDF to Word
       {
         name: "pdf_to_word",
-        description: "Convert PDF to editable Word document.",
+        description:
+          "Extract the text of a PDF into a plain text (.txt) file. The iLovePDF API has no Word conversion, so no DOCX is produced.",
         inputSchema: {
           type: "object",
           properties: {
-            public_key: { type: "string" },
-            secret_key: { type: "string" },
-            file_path: { type: "string", description: "Path to PDF file" },
+            ...COMMON_PROPERTIES,
+            file_path: {
+              type: "string",
+              description: "Path or http(s) URL of the PDF file",
+            },
             output_path: {
               type: "string",
-              description: "Path for output DOCX file",
+              description: "Path for the output .txt file",
             },
           },
-          required: ["public_key", "secret_key", "file_path", "output_path"],
+          required: ["file_path", "output_path"],
         },
       },
 
@@ -582,18 +1753,18 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
         inputSchema: {
           type: "object",
           properties: {
-            public_key: { type: "string" },
-            secret_key: { type: "string" },
+            ...COMMON_PROPERTIES,
             file_path: {
               type: "string",
-              description: "Path to Office file (DOCX, XLSX, PPTX)",
+              description:
+                "Path or http(s) URL of the Office file (DOCX, XLSX, PPTX)",
             },
             output_path: {
               type: "string",
               description: "Path for output PDF file",
             },
           },
-          required: ["public_key", "secret_key", "file_path", "output_path"],
+          required: ["file_path", "output_path"],
         },
       },
 
@@ -604,9 +1775,11 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
         inputSchema: {
           type: "object",
           properties: {
-            public_key: { type: "string" },
-            secret_key: { type: "string" },
-            file_path: { type: "string", description: "Path to PDF file" },
+            ...COMMON_PROPERTIES,
+            file_path: {
+              type: "string",
+              description: "Path or http(s) URL of the PDF file",
+            },
             output_path: {
               type: "string",
               description: "Path for output file",
@@ -618,7 +1791,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               description: "OCR languages e.g., ['eng', 'spa']",
             },
           },
-          required: ["public_key", "secret_key", "file_path", "output_path"],
+          required: ["file_path", "output_path"],
         },
       },
 
@@ -629,15 +1802,190 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
         inputSchema: {
           type: "object",
           properties: {
-            public_key: { type: "string" },
-            secret_key: { type: "string" },
-            file_path: { type: "string", description: "Path to PDF file" },
+            ...COMMON_PROPERTIES,
+            file_path: {
+              type: "string",
+              description: "Path or http(s) URL of the PDF file",
+            },
+            output_path: {
+              type: "string",
+              description: "Path for output file",
+            },
+          },
+          required: ["file_path", "output_path"],
+        },
+      },
+
+      // PDF to PDF/A
+      {
+        name: "pdf_to_pdfa",
+        description:
+          "Convert a PDF to PDF/A for long-term archiving at the chosen conformance level.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            ...COMMON_PROPERTIES,
+            file_path: {
+              type: "string",
+              description: "Path or http(s) URL of the PDF file",
+            },
+            output_path: {
+              type: "string",
+              description: "Path for output file",
+            },
+            conformance: {
+              type: "string",
+              enum: [...PDFA_CONFORMANCE],
+              default: "pdfa-2b",
+            },
+            allow_downgrade: {
+              type: "boolean",
+              default: true,
+              description:
+                "Fall back to a lower conformance level if the requested one cannot be met",
+            },
+          },
+          required: ["file_path", "output_path"],
+        },
+      },
+
+      // Validate PDF/A
+      {
+        name: "validate_pdfa",
+        description:
+          "Check whether a PDF conforms to a PDF/A level. Returns the validation report; no file is written.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            ...COMMON_PROPERTIES,
+            file_path: {
+              type: "string",
+              description: "Path or http(s) URL of the PDF file",
+            },
+            conformance: {
+              type: "string",
+              enum: [...PDFA_CONFORMANCE],
+              default: "pdfa-2b",
+            },
+          },
+          required: ["file_path"],
+        },
+      },
+
+      // HTML to PDF
+      {
+        name: "html_to_pdf",
+        description: "Render a web page to PDF.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            ...COMMON_PROPERTIES,
+            url: { type: "string", description: "http(s) URL of the page" },
+            output_path: {
+              type: "string",
+              description: "Path for output PDF file",
+            },
+            page_size: {
+              type: "string",
+              enum: ["A3", "A4", "A5", "A6", "Letter"],
+              default: "A4",
+            },
+            page_orientation: {
+              type: "string",
+              enum: ["portrait", "landscape"],
+              default: "portrait",
+            },
+            page_margin: {
+              type: "number",
+              default: 0,
+              description: "Margin in pixels",
+            },
+            view_width: {
+              type: "number",
+              default: 1920,
+              description: "Viewport width in pixels used to render the page",
+            },
+            single_page: {
+              type: "boolean",
+              default: false,
+              description: "Render the whole page onto one PDF page",
+            },
+            block_ads: { type: "boolean", default: false },
+            remove_popups: { type: "boolean", default: false },
+          },
+          required: ["url", "output_path"],
+        },
+      },
+
+      // Edit PDF
+      {
+        name: "edit_pdf",
+        description:
+          "Place text, images and SVG shapes on PDF pages. Coordinates are in points from the top-left corner.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            ...COMMON_PROPERTIES,
+            file_path: {
+              type: "string",
+              description: "Path or http(s) URL of the PDF file",
+            },
             output_path: {
               type: "string",
               description: "Path for output file",
             },
+            text_elements: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  ...ELEMENT_PLACEMENT_PROPERTIES,
+                  text: { type: "string" },
+                  font_family: { type: "string" },
+                  font_size: { type: "number" },
+                  font_color: { type: "string", description: "e.g. #000000" },
+                  font_style: {
+                    type: "string",
+                    enum: ["Regular", "Bold", "Italic", "Bold italic"],
+                  },
+                  text_align: {
+                    type: "string",
+                    enum: ["left", "center", "right"],
+                  },
+                },
+                required: ["text", "x", "y"],
+              },
+            },
+            image_elements: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  ...ELEMENT_PLACEMENT_PROPERTIES,
+                  file_path: {
+                    type: "string",
+                    description: "Path or http(s) URL of a JPG or PNG image",
+                  },
+                },
+                required: ["file_path", "x", "y"],
+              },
+            },
+            shape_elements: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  ...ELEMENT_PLACEMENT_PROPERTIES,
+                  file_path: {
+                    type: "string",
+                    description: "Path or http(s) URL of an SVG file",
+                  },
+                },
+                required: ["file_path", "x", "y"],
+              },
+            },
           },
-          required: ["public_key", "secret_key", "file_path", "output_path"],
+          required: ["file_path", "output_path"],
         },
       },
 
@@ -648,9 +1996,11 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
         inputSchema: {
           type: "object",
           properties: {
-            public_key: { type: "string" },
-            secret_key: { type: "string" },
-            file_path: { type: "string", description: "Path to image file" },
+            ...COMMON_PROPERTIES,
+            file_path: {
+              type: "string",
+              description: "Path or http(s) URL of the image file",
+            },
             output_path: {
               type: "string",
               description: "Path for output file",
@@ -661,7 +2011,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               default: "recommended",
             },
           },
-          required: ["public_key", "secret_key", "file_path", "output_path"],
+          required: ["file_path", "output_path"],
         },
       },
 
@@ -671,9 +2021,11 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
         inputSchema: {
           type: "object",
           properties: {
-            public_key: { type: "string" },
-            secret_key: { type: "string" },
-            file_path: { type: "string", description: "Path to image file" },
+            ...COMMON_PROPERTIES,
+            file_path: {
+              type: "string",
+              description: "Path or http(s) URL of the image file",
+            },
             output_path: {
               type: "string",
               description: "Path for output file",
@@ -688,7 +2040,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
             percentage: { type: "number", description: "Resize percentage" },
             maintain_ratio: { type: "boolean", default: true },
           },
-          required: ["public_key", "secret_key", "file_path", "output_path"],
+          required: ["file_path", "output_path"],
         },
       },
 
@@ -698,9 +2050,11 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
         inputSchema: {
           type: "object",
           properties: {
-            public_key: { type: "string" },
-            secret_key: { type: "string" },
-            file_path: { type: "string", description: "Path to image file" },
+            ...COMMON_PROPERTIES,
+            file_path: {
+              type: "string",
+              description: "Path or http(s) URL of the image file",
+            },
             output_path: {
               type: "string",
               description: "Path for output file (include extension)",
@@ -711,7 +2065,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               default: "jpg",
             },
           },
-          required: ["public_key", "secret_key", "file_path", "output_path"],
+          required: ["file_path", "output_path"],
         },
       },
 
@@ -721,15 +2075,17 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
         inputSchema: {
           type: "object",
           properties: {
-            public_key: { type: "string" },
-            secret_key: { type: "string" },
-            file_path: { type: "string", description: "Path to image file" },
+            ...COMMON_PROPERTIES,
+            file_path: {
+              type: "string",
+              description: "Path or http(s) URL of the image file",
+            },
             output_path: {
               type: "string",
               description: "Path for output PNG file",
             },
           },
-          required: ["public_key", "secret_key", "file_path", "output_path"],
+          required: ["file_path", "output_path"],
         },
       },
 
@@ -739,179 +2095,773 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
         inputSchema: {
           type: "object",
           properties: {
-            public_key: { type: "string" },
-            secret_key: { type: "string" },
-            file_path: { type: "string", description: "Path to image file" },
+            ...COMMON_PROPERTIES,
+            file_path: {
+              type: "string",
+              description: "Path or http(s) URL of the image file",
+            },
             output_path: {
               type: "string",
               description: "Path for output file",
             },
             multiplier: { type: "number", enum: [2, 4], default: 2 },
           },
-          required: ["public_key", "secret_key", "file_path", "output_path"],
+          required: ["file_path", "output_path"],
         },
       },
-    ],
-  };
-});
-
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const toolName = request.params.name;
-  const args = request.params.arguments || {};
-
-  const getAuth = () => ({
-    public_key: args.public_key as string,
-    secret_key: args.secret_key as string,
-  });
 
-  const processPDF = async (
-    tool: PDFTool,
-    filePath: string,
-    outputPath: string,
-    options: Record<string, unknown> = {},
-    files?: Array<{ server_filename: string; filename: string }>,
-  ) => {
-    const auth = getAuth();
-    const token = await getToken(auth);
-    const taskInfo = await startTask(tool, token);
-
-    let uploadedFiles: UploadedFile[] = [];
-    if (!files) {
-      const path = await import("path");
-      const fs = await import("fs");
-      const stats = await fs.promises.stat(filePath);
-      const uploaded = await uploadFile(
-        taskInfo.server,
-        taskInfo.task,
-        token,
-        filePath,
-      );
-      uploadedFiles = [
-        {
-          server_filename: uploaded.server_filename,
-          filename: path.basename(filePath),
+      {
+        name: "crop_image",
+        description: "Crop an image to a rectangle.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            ...COMMON_PROPERTIES,
+            file_path: {
+              type: "string",
+              description: "Path or http(s) URL of the image file",
+            },
+            output_path: {
+              type: "string",
+              description: "Path for output file",
+            },
+            width: { type: "number", description: "Crop width in pixels" },
+            height: { type: "number", description: "Crop height in pixels" },
+            x: {
+              type: "number",
+              default: 0,
+              description: "Left edge of the crop in pixels",
+            },
+            y: {
+              type: "number",
+              default: 0,
+              description: "Top edge of the crop in pixels",
+            },
+          },
+          required: ["file_path", "output_path", "width", "height"],
         },
-      ];
-    } else {
-      uploadedFiles = files.map((f) => ({
-        server_filename: f.server_filename,
-        filename: f.filename,
-      }));
-    }
-
-    await processFiles(
-      taskInfo.server,
-      taskInfo.task,
-      token,
-      tool,
-      uploadedFiles.map((f) => ({
-        server_filename: f.server_filename,
-        filename: f.filename || "file",
-      })),
-      options,
-    );
-
-    await downloadResult(taskInfo.server, taskInfo.task, token, outputPath);
-    await deleteTask(taskInfo.server, taskInfo.task, token);
-
-    return {
-      success: true,
-      output_path: outputPath,
-      remaining_credits: taskInfo.remaining_credits,
-    };
-  };
-
-  const processImage = async (
-    tool: ImageTool,
-    filePath: string,
-    outputPath: string,
-    options: Record<string, unknown> = {},
-  ) => {
-    return processPDF(
-      tool as unknown as PDFTool,
-      filePath,
-      outputPath,
-      options,
-    );
-  };
+      },
 
-  try {
-    switch (toolName) {
-      case "ilovepdf_auth": {
-        const auth = AuthSchema.parse(args);
-        const token = await getToken(auth);
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Authentication successful! Token: ${token.substring(0, 20)}...`,
+      {
+        name: "watermark_image",
+        description: "Add text and/or image watermark layers to an image.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            ...COMMON_PROPERTIES,
+            file_path: {
+              type: "string",
+              description: "Path or http(s) URL of the image file",
             },
-          ],
-        };
-      }
-
-      case "compress_pdf": {
-        const result = await processPDF(
-          "compress",
-          args.file_path as string,
-          args.output_path as string,
-          {
-            compression_level: args.compression_level || "recommended",
-          },
-        );
-        return {
-          content: [
-            {
-              type: "text",
-              text: `PDF compressed successfully!\nOutput: ${result.output_path}\nRemaining credits: ${result.remaining_credits}`,
+            output_path: {
+              type: "string",
+              description: "Path for output file",
             },
-          ],
-        };
-      }
-
-      case "merge_pdf": {
-        const auth = getAuth();
-        const token = await getToken(auth);
-        const taskInfo = await startTask("merge", token);
-        const path = await import("path");
+            layers: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  type: { type: "string", enum: ["text", "image"] },
+                  text: { type: "string", description: "For text layers" },
+                  file_path: {
+                    type: "string",
+                    description:
+                      "Watermark image path or URL, for image layers",
+                  },
+                  position: {
+                    type: "string",
+                    enum: [...GRAVITIES],
+                    default: "Center",
+                  },
+                  vertical_adjustment_percent: { type: "number", default: 0 },
+                  horizontal_adjustment_percent: {
+                    type: "number",
+                    default: 0,
+                  },
+                  opacity: {
+                    type: "number",
+                    default: 100,
+                    description: "Opacity 1-100",
+                  },
+                  rotation: { type: "number", default: 0 },
+                  mosaic: {
+                    type: "boolean",
+                    default: false,
+                    description: "Tile the layer across the whole image",
+                  },
+                  font_family: { type: "string", enum: [...PDF_FONTS] },
+                  font_style: { type: "string", enum: ["Bold", "Italic"] },
+                  font_size: { type: "number" },
+                  font_color: { type: "string", description: "e.g. #000000" },
+                },
+                required: ["type"],
+              },
+            },
+          },
+          required: ["file_path", "output_path", "layers"],
+        },
+      },
+
+      {
+        name: "repair_image",
+        description: "Repair a damaged or corrupt image file.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            ...COMMON_PROPERTIES,
+            file_path: {
+              type: "string",
+              description: "Path or http(s) URL of the image file",
+            },
+            output_path: {
+              type: "string",
+              description: "Path for output file",
+            },
+          },
+          required: ["file_path", "output_path"],
+        },
+      },
+
+      {
+        name: "rotate_image",
+        description:
+          "Rotate one image, or several with a rotation per file (output is then a ZIP).",
+        inputSchema: {
+          type: "object",
+          properties: {
+            ...COMMON_PROPERTIES,
+            file_path: {
+              type: "string",
+              description: "Path or http(s) URL of the image file",
+            },
+            rotation: { type: "number", enum: [...ROTATIONS], default: 90 },
+            files: {
+              ...FILES_PROPERTY,
+              description:
+                "Alternative to file_path that rotates several images, each by its own angle",
+            },
+            output_path: {
+              type: "string",
+              description: "Path for output file",
+            },
+            ...OUTPUT_DIR_PROPERTIES,
+          },
+        },
+      },
+
+      // iLoveSign
+      {
+        name: "create_signature_request",
+        description:
+          "Send one or more PDFs out for signature. Signers, validators and viewers are emailed by iLoveSign. Returns the signature_id used by the other signature tools.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            ...COMMON_PROPERTIES,
+            file_paths: {
+              type: "array",
+              items: { type: "string" },
+              description: "Paths or http(s) URLs of the PDF files to sign",
+            },
+            signers: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  name: { type: "string" },
+                  email: { type: "string" },
+                  role: {
+                    type: "string",
+                    enum: ["signer", "validator", "viewer"],
+                    default: "signer",
+                  },
+                  phone: { type: "string" },
+                  access_code: {
+                    type: "string",
+                    description:
+                      "Code the recipient must enter to open the request",
+                  },
+                  fields: {
+                    type: "array",
+                    description:
+                      "Fields this signer fills in; required for signers",
+                    items: {
+                      type: "object",
+                      properties: {
+                        type: {
+                          type: "string",
+                          enum: [
+                            "signature",
+                            "initials",
+                            "name",
+                            "date",
+                            "text",
+                            "input",
+                          ],
+                          default: "signature",
+                        },
+                        file_index: {
+                          type: "number",
+                          default: 0,
+                          description: "Index into file_paths",
+                        },
+                        pages: { type: "string", default: "1" },
+                        x: {
+                          type: "number",
+                          description: "Points from the left edge",
+                        },
+                        y: {
+                          type: "number",
+                          description: "Points from the top edge",
+                        },
+                        size: { type: "number", default: 18 },
+                        content: {
+                          type: "string",
+                          description: "Fixed text for text fields",
+                        },
+                      },
+                      required: ["x", "y"],
+                    },
+                  },
+                },
+                required: ["name", "email"],
+              },
+            },
+            subject: { type: "string", description: "Email subject" },
+            message: { type: "string", description: "Email message" },
+            language: { type: "string", default: "en-US" },
+            lock_order: {
+              type: "boolean",
+              default: false,
+              description: "Recipients act one after another in list order",
+            },
+            expiration_days: { type: "number", default: 120 },
+            reminder_days: {
+              type: "number",
+              description: "Send automatic reminders every N days",
+            },
+          },
+          required: ["file_paths", "signers"],
+        },
+      },
+
+      {
+        name: "get_signature_status",
+        description:
+          "Get the status of a signature request and of each recipient.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            ...CREDENTIAL_PROPERTIES,
+            signature_id: { type: "string" },
+          },
+          required: ["signature_id"],
+        },
+      },
+
+      {
+        name: "send_signature_reminders",
+        description:
+          "Email a reminder to every recipient who has not acted on the request yet.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            ...CREDENTIAL_PROPERTIES,
+            signature_id: { type: "string" },
+          },
+          required: ["signature_id"],
+        },
+      },
+
+      {
+        name: "void_signature_request",
+        description:
+          "Void (cancel) a signature request so it can no longer be signed.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            ...CREDENTIAL_PROPERTIES,
+            signature_id: { type: "string" },
+          },
+          required: ["signature_id"],
+        },
+      },
+
+      {
+        name: "download_signature",
+        description:
+          "Download the signed document, the audit trail or the original of a signature request.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            ...CREDENTIAL_PROPERTIES,
+            signature_id: { type: "string" },
+            document: {
+              type: "string",
+              enum: [...SIGNATURE_DOCUMENTS],
+              default: "signed",
+            },
+            output_path: {
+              type: "string",
+              description:
+                "Path for output file (PDF, or ZIP when several documents were signed)",
+            },
+          },
+          required: ["signature_id", "output_path"],
+        },
+      },
+
+      // Pipelines
+      {
+        name: "run_pipeline",
+        description:
+          "Run several tools in sequence, each on the previous step's output, and report on every step. Stops at the first failure.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            ...COMMON_PROPERTIES,
+            steps: {
+              type: "array",
+              minItems: 1,
+              items: {
+                type: "object",
+                properties: {
+                  tool: { type: "string", enum: [...PIPELINE_TOOLS] },
+                  arguments: {
+                    type: "object",
+                    description: `The tool's usual arguments. Inputs default to the previous step's output; use "${PREVIOUS_OUTPUT}" to place it, e.g. in file_paths. Output paths are only needed to keep intermediate files`,
+                  },
+                },
+                required: ["tool"],
+              },
+            },
+            output_path: {
+              type: "string",
+              description:
+                "Path for the last step's output file, unless that step sets its own",
+            },
+            ...OUTPUT_DIR_PROPERTIES,
+          },
+          required: ["steps"],
+        },
+      },
+      {
+        name: "batch",
+        description:
+          "Run a single-file tool over every file matching a glob or in a directory, a few at a time. Returns which files succeeded or failed, with the metrics of every task run.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            ...COMMON_PROPERTIES,
+            tool: { type: "string", enum: [...BATCH_TOOLS] },
+            arguments: {
+              type: "object",
+              description:
+                "Arguments for every call, without file_path or output_path",
+            },
+            file_glob: {
+              type: "string",
+              description:
+                "Inputs to process, e.g. '/scans/**/*.pdf' (case-insensitive; hidden files are skipped)",
+            },
+            input_dir: {
+              type: "string",
+              description:
+                "Alternative to file_glob: every file directly in this directory",
+            },
+            output_dir: {
+              type: "string",
+              description:
+                "Where to write results; defaults to next to each input",
+            },
+            output_template: {
+              type: "string",
+              description:
+                "Result file name with {name}, {ext} and {tool}; defaults to '{name}.{ext}' in output_dir and '{name}-{tool}.{ext}' next to inputs",
+            },
+            concurrency: {
+              type: "number",
+              default: 2,
+              description: "Tasks run at once, 1-8",
+            },
+            group_size: {
+              type: "number",
+              default: 10,
+              description:
+                "Files sent through one task where the tool allows it, 1-50; 1 gives every file its own task",
+            },
+          },
+          required: ["tool"],
+        },
+      },
+
+      // Background jobs
+      {
+        name: "get_job_status",
+        description:
+          "Get the status, current stage and progress of a job started with async, plus its output paths once finished.",
+        inputSchema: {
+          type: "object",
+          properties: JOB_ID_PROPERTIES,
+          required: ["job_id"],
+        },
+      },
+      {
+        name: "get_job_result",
+        description:
+          "Get the result of a finished job, exactly as the tool would have returned it.",
+        inputSchema: {
+          type: "object",
+          properties: JOB_ID_PROPERTIES,
+          required: ["job_id"],
+        },
+      },
+      {
+        name: "cancel_job",
+        description:
+          "Cancel a running job. It stops at its next request and its remote task is deleted; files already written are kept.",
+        inputSchema: {
+          type: "object",
+          properties: JOB_ID_PROPERTIES,
+          required: ["job_id"],
+        },
+      },
+    ],
+  };
+});
+
+server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+  const { name, arguments: args } = request.params;
+  if (args?.async === true && ASYNC_TOOLS.has(name)) {
+    return jobResult(
+      "Job started. Follow it with get_job_status and fetch its result with get_job_result.",
+      startJob(name, (job) =>
+        callTool(
+          name,
+          args,
+          (progress, total, message) =>
+            updateJob(job, progress, total, message),
+          { signal: job.controller.signal },
+        ),
+      ),
+    );
+  }
+  return callTool(
+    name,
+    args,
+    progressReporter(
+      request.params._meta?.progressToken,
+      extra.sendNotification,
+    ),
+  );
+});
 
-        const uploadedFiles = [];
-        for (const filePath of args.file_paths as string[]) {
-          const uploaded = await uploadFile(
+/**
+ * A summary of a job, as text and as structuredContent.
+ */
+function jobResult(text: string, job: Job): CallToolResult {
+  return structuredResult(`${text}\nJob ID: ${job.id}`, jobSummary(job));
+}
+
+/**
+ * Runs one tool. Failures come back as isError results rather than being
+ * thrown, which is what MCP clients expect.
+ */
+async function callTool(
+  toolName: string,
+  toolArgs: Record<string, unknown> | undefined,
+  reportProgress: ReportProgress,
+  { inputGroup, signal }: CallOptions = {},
+): Promise<CallToolResult> {
+  const args: Record<string, unknown> = { ...toolArgs };
+  let profile: Profile | undefined;
+
+  const getAuth = (): Auth => resolveCredentials(args, config, profile);
+  const getRegion = (): Region => resolveRegion(args, config, profile);
+
+  const outputTarget = (): OutputTarget => {
+    const output_dir = z.string().min(1).optional().parse(args.output_dir);
+    if (output_dir !== undefined) {
+      return { output_dir, keep_archive: args.keep_archive === true };
+    }
+    if (typeof args.output_path !== "string" || args.output_path === "") {
+      throw new Error("output_path or output_dir is required");
+    }
+    return { output_path: args.output_path };
+  };
+
+  /**
+   * Uploads every input to a fresh task, annotates the uploads with their
+   * per-file password/rotate values and runs the tool over them in order.
+   * Assets such as the images placed by edit_pdf are uploaded as well, and
+   * their server filenames are handed to `options` when it is a function.
+   * Without an output path nothing is downloaded.
+   */
+  const processPDF = async (
+    tool: PDFTool | ImageTool,
+    inputs: string | InputFile | InputFile[],
+    output: OutputTarget | undefined,
+    options:
+      | Record<string, unknown>
+      | ((assets: string[]) => Record<string, unknown>) = {},
+    assets: string[] = [],
+  ) => {
+    const requested =
+      typeof inputs === "string"
+        ? [{ file_path: inputs }]
+        : Array.isArray(inputs)
+          ? inputs
+          : [inputs];
+    // A batch group takes the place of the single input, keeping its
+    // per-file options such as rotate.
+    const files =
+      inputGroup !== undefined && requested.length === 1
+        ? inputGroup.map((file_path) => ({ ...requested[0], file_path }))
+        : requested;
+    await validateInputs([
+      ...files,
+      ...assets.map((file_path) => ({ file_path })),
+    ]);
+    if (output?.output_path !== undefined) {
+      checkOutputExtension(
+        output.output_path,
+        resultExtension(
+          tool,
+          files[0].file_path,
+          typeof options === "function" ? {} : options,
+        ),
+      );
+    }
+    const auth = getAuth();
+    const region = getRegion();
+    const keepRemoteTask = args.keep_remote_task === true;
+    const started = Date.now();
+
+    // Progress counts finished steps: auth, start, one per upload, process,
+    // download and cleanup. Each report names the step that is starting.
+    const total = files.length + assets.length + 5;
+    signal?.throwIfAborted();
+    reportProgress(0, total, "Authenticating");
+    await getToken(auth);
+    reportProgress(1, total, `Starting ${tool} task`);
+
+    const result = await withTask(
+      auth,
+      tool,
+      region,
+      keepRemoteTask,
+      async (taskInfo) => {
+        // Inputs and assets upload together; progress is the number of
+        // finished uploads plus the fraction sent of those in flight.
+        const uploadInputs = [
+          ...files.map((file) => file.file_path),
+          ...assets,
+        ];
+        const sent = uploadInputs.map(() => 0);
+        const uploadProgress = (
+          index: number,
+          fraction: number,
+          message: string,
+        ) => {
+          sent[index] = fraction;
+          // The last upload to finish hands over to the processing step.
+          if (sent.every((f) => f === 1)) {
+            return;
+          }
+          reportProgress(
+            2 + sent.reduce((sum, f) => sum + f, 0),
+            total,
+            message,
+          );
+        };
+        reportProgress(2, total, `Uploading ${uploadInputs.length} file(s)`);
+
+        const uploaded = await mapConcurrent(
+          uploadInputs,
+          UPLOAD_CONCURRENCY,
+          async (input, index, signal) => {
+            const name = inputFilename(input);
+            const result = await withToken(auth, (token) =>
+              isRemoteUrl(input)
+                ? uploadUrl(
+                    taskInfo.server,
+                    taskInfo.task,
+                    token,
+                    input,
+                    signal,
+                  )
+                : uploadFile(
+                    taskInfo.server,
+                    taskInfo.task,
+                    token,
+                    input,
+                    signal,
+                    (bytes, size) => {
+                      if (bytes < size) {
+                        uploadProgress(
+                          index,
+                          bytes / size,
+                          `Uploading ${name}: ${formatMegabytes(bytes)} of ${formatMegabytes(size)}`,
+                        );
+                      }
+                    },
+                  ),
+            );
+            uploadProgress(index, 1, `Uploaded ${name}`);
+            return result;
+          },
+          signal,
+        );
+
+        // The files array keeps the caller's order, which is the merge order.
+        const uploads = uploaded.slice(0, files.length);
+        const filenames = taskFilenames(files.map((file) => file.file_path));
+        const taskFiles: TaskFile[] = files.map((file, index) => ({
+          server_filename: uploads[index].server_filename,
+          filename: filenames[index],
+          password: file.password,
+          rotate: file.rotate,
+        }));
+        const assetFilenames = uploaded
+          .slice(files.length)
+          .map((asset) => asset.server_filename);
+
+        signal?.throwIfAborted();
+        reportProgress(
+          2 + uploadInputs.length,
+          total,
+          `Processing with ${tool}`,
+        );
+        const processResult = await withToken(auth, (token) =>
+          processFiles(
             taskInfo.server,
             taskInfo.task,
             token,
-            filePath,
-          );
-          uploadedFiles.push({
-            server_filename: uploaded.server_filename,
-            filename: path.basename(filePath),
-          });
+            tool,
+            taskFiles,
+            typeof options === "function" ? options(assetFilenames) : options,
+            signal,
+          ),
+        );
+
+        if (output !== undefined) {
+          reportProgress(total - 2, total, "Downloading result");
         }
+        const outputPaths =
+          output === undefined
+            ? []
+            : await withToken(auth, (token) =>
+                downloadResult(
+                  taskInfo.server,
+                  taskInfo.task,
+                  token,
+                  output,
+                  processResult.download_filename,
+                  signal,
+                ),
+              );
+
+        const summary = {
+          success: true,
+          output_path: output?.output_path ?? output?.output_dir,
+          output_paths: outputPaths,
+          region,
+          files: taskFiles.length,
+          task: taskInfo.task,
+          remaining_credits: taskInfo.remaining_credits,
+          process: processResult,
+          metrics: buildMetrics(
+            tool,
+            taskInfo,
+            region,
+            uploads,
+            processResult,
+            output,
+            outputPaths,
+            Date.now() - started,
+          ),
+        };
+        reportProgress(
+          total - 1,
+          total,
+          keepRemoteTask ? "Keeping remote task" : "Deleting remote task",
+        );
+        return summary;
+      },
+    );
+    reportProgress(total, total, "Done");
+    return result;
+  };
 
-        await processFiles(
-          taskInfo.server,
-          taskInfo.task,
-          token,
-          "merge",
-          uploadedFiles,
+  const processImage = async (
+    tool: ImageTool,
+    inputs: string | InputFile | InputFile[],
+    output: OutputTarget,
+    options:
+      | Record<string, unknown>
+      | ((assets: string[]) => Record<string, unknown>) = {},
+    assets: string[] = [],
+  ) => {
+    return processPDF(tool, inputs, output, options, assets);
+  };
+
+  try {
+    profile = resolveProfile(args, config);
+    for (const key of ["output_path", "output_dir"]) {
+      const value = args[key];
+      if (typeof value === "string") {
+        args[key] = resolveOutputPath(value, profile);
+      }
+    }
+
+    switch (toolName) {
+      case "ilovepdf_auth": {
+        const auth = AuthSchema.parse(getAuth());
+        const token = await getToken(auth);
+        const authMode = auth.auth_mode ?? DEFAULT_AUTH_MODE;
+        return structuredResult(
+          `Authentication successful (${authMode})! Token: ${token.substring(0, 20)}...`,
+          { authenticated: true, auth_mode: authMode },
         );
-        await downloadResult(
-          taskInfo.server,
-          taskInfo.task,
-          token,
-          args.output_path as string,
+      }
+
+      case "list_profiles": {
+        const profiles = listProfiles(config);
+        return structuredResult(
+          profiles.length
+            ? `${profiles.length} profile(s) configured.`
+            : "No profiles configured.",
+          { profiles },
         );
-        await deleteTask(taskInfo.server, taskInfo.task, token);
+      }
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: `PDFs merged successfully!\nOutput: ${args.output_path}\nFiles merged: ${(args.file_paths as string[]).length}`,
-            },
-          ],
-        };
+      case "compress_pdf": {
+        const result = await processPDF(
+          "compress",
+          args.file_path as string,
+          outputTarget(),
+          {
+            compression_level: args.compression_level || "recommended",
+          },
+        );
+        return toolResult(
+          `PDF compressed successfully!\nOutput: ${result.output_path}\nRegion: ${result.region}\nRemaining credits: ${result.remaining_credits}`,
+          result.metrics,
+        );
+      }
+
+      case "merge_pdf": {
+        const result = await processPDF(
+          "merge",
+          parseInputFiles(args),
+          outputTarget(),
+        );
+
+        return toolResult(
+          `PDFs merged successfully!\nOutput: ${result.output_path}\nRegion: ${result.region}\nFiles merged: ${result.files}`,
+          result.metrics,
+        );
       }
 
       case "split_pdf": {
@@ -925,64 +2875,35 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         const result = await processPDF(
           "split",
           args.file_path as string,
-          args.output_path as string,
+          outputTarget(),
           options,
         );
-        return {
-          content: [
-            {
-              type: "text",
-              text: `PDF split successfully!\nOutput: ${result.output_path}`,
-            },
-          ],
-        };
+        return toolResult(
+          `PDF split successfully!\nOutput: ${result.output_path}\nRegion: ${result.region}`,
+          result.metrics,
+        );
       }
 
       case "pdf_to_jpg": {
         const result = await processPDF(
           "pdfjpg",
           args.file_path as string,
-          args.output_path as string,
+          outputTarget(),
           {
             pdfjpg_mode: args.mode || "pages",
           },
         );
-        return {
-          content: [
-            {
-              type: "text",
-              text: `PDF converted to JPG!\nOutput: ${result.output_path}`,
-            },
-          ],
-        };
+        return toolResult(
+          `PDF converted to JPG!\nOutput: ${result.output_path}\nRegion: ${result.region}`,
+          result.metrics,
+        );
       }
 
       case "jpg_to_pdf": {
-        const auth = getAuth();
-        const token = await getToken(auth);
-        const taskInfo = await startTask("imagepdf", token);
-        const path = await import("path");
-
-        const uploadedFiles = [];
-        for (const filePath of args.file_paths as string[]) {
-          const uploaded = await uploadFile(
-            taskInfo.server,
-            taskInfo.task,
-            token,
-            filePath,
-          );
-          uploadedFiles.push({
-            server_filename: uploaded.server_filename,
-            filename: path.basename(filePath),
-          });
-        }
-
-        await processFiles(
-          taskInfo.server,
-          taskInfo.task,
-          token,
+        const result = await processPDF(
           "imagepdf",
-          uploadedFiles,
+          parseInputFiles(args),
+          outputTarget(),
           {
             orientation: args.orientation || "portrait",
             margin: args.margin || 0,
@@ -990,226 +2911,298 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             merge_after: true,
           },
         );
-        await downloadResult(
-          taskInfo.server,
-          taskInfo.task,
-          token,
-          args.output_path as string,
-        );
-        await deleteTask(taskInfo.server, taskInfo.task, token);
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Images converted to PDF!\nOutput: ${args.output_path}`,
-            },
-          ],
-        };
+        return toolResult(
+          `Images converted to PDF!\nOutput: ${result.output_path}\nRegion: ${result.region}`,
+          result.metrics,
+        );
       }
 
       case "unlock_pdf": {
-        const files = [
-          {
-            server_filename: "",
-            filename: "",
-            password: args.password as string,
-          },
-        ];
         const result = await processPDF(
           "unlock",
-          args.file_path as string,
-          args.output_path as string,
-          {},
-          files,
+          {
+            file_path: args.file_path as string,
+            password: args.password as string | undefined,
+          },
+          outputTarget(),
+        );
+        return toolResult(
+          `PDF unlocked successfully!\nOutput: ${result.output_path}\nRegion: ${result.region}`,
+          result.metrics,
         );
-        return {
-          content: [
-            {
-              type: "text",
-              text: `PDF unlocked successfully!\nOutput: ${result.output_path}`,
-            },
-          ],
-        };
       }
 
       case "protect_pdf": {
         const result = await processPDF(
           "protect",
           args.file_path as string,
-          args.output_path as string,
+          outputTarget(),
           {
             password: args.password,
           },
         );
-        return {
-          content: [
-            {
-              type: "text",
-              text: `PDF protected successfully!\nOutput: ${result.output_path}`,
-            },
-          ],
-        };
+        return toolResult(
+          `PDF protected successfully!\nOutput: ${result.output_path}\nRegion: ${result.region}`,
+          result.metrics,
+        );
       }
 
       case "rotate_pdf": {
-        const files = [
-          {
-            server_filename: "",
-            filename: "",
-            rotate: args.rotation as number,
-          },
-        ];
         const result = await processPDF(
           "rotate",
-          args.file_path as string,
-          args.output_path as string,
-          {},
-          files,
+          InputFileSchema.parse({
+            file_path: args.file_path,
+            rotate: args.rotation ?? 90,
+          }),
+          outputTarget(),
+        );
+        return toolResult(
+          `PDF rotated successfully!\nOutput: ${result.output_path}\nRegion: ${result.region}`,
+          result.metrics,
         );
-        return {
-          content: [
-            {
-              type: "text",
-              text: `PDF rotated successfully!\nOutput: ${result.output_path}`,
-            },
-          ],
-        };
       }
 
       case "watermark_pdf": {
+        const mode = z
+          .enum(["text", "image"])
+          .parse(args.mode ?? (args.image_path ? "image" : "text"));
+        if (mode === "text" && !args.text) {
+          throw new Error("Text watermarks need text");
+        }
+        if (mode === "image" && !args.image_path) {
+          throw new Error("Image watermarks need image_path");
+        }
+        const style = PdfWatermarkStyleSchema.parse(args);
+        const pages = PageSelectionSchema.parse(args.pages ?? "all");
+        const verticalPosition = z
+          .enum(["top", "middle", "bottom"])
+          .parse(
+            args.vertical_position ??
+              (args.position === "center" ? "middle" : args.position) ??
+              "middle",
+          );
+        const horizontalPosition = z
+          .enum(["left", "center", "right"])
+          .parse(args.horizontal_position ?? "center");
+
         const result = await processPDF(
           "watermark",
           args.file_path as string,
-          args.output_path as string,
-          {
-            mode: args.mode || "text",
-            text: args.text,
-            font_size: args.font_size || 14,
-            font_color: args.font_color || "#000000",
-            transparency: args.transparency || 100,
-            rotation: args.rotation || 0,
-            vertical_position: args.position || "middle",
-            horizontal_position: "center",
-          },
+          outputTarget(),
+          (assets) => ({
+            mode,
+            text: mode === "text" ? args.text : undefined,
+            image: mode === "image" ? assets[0] : undefined,
+            pages,
+            mosaic: args.mosaic === true,
+            layer: args.layer || "above",
+            ...style,
+            font_style:
+              style.font_style === "Regular" ? null : style.font_style,
+            vertical_position: verticalPosition,
+            horizontal_position: horizontalPosition,
+            vertical_position_adjustment: args.vertical_adjustment ?? 0,
+            horizontal_position_adjustment: args.horizontal_adjustment ?? 0,
+          }),
+          mode === "image" ? [args.image_path as string] : [],
+        );
+        return toolResult(
+          `Watermark added successfully!\nOutput: ${result.output_path}\nRegion: ${result.region}`,
+          result.metrics,
         );
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Watermark added successfully!\nOutput: ${result.output_path}`,
-            },
-          ],
-        };
       }
 
       case "page_numbers": {
+        const options = PageNumberOptionsSchema.parse(args);
         const result = await processPDF(
           "pagenumber",
           args.file_path as string,
-          args.output_path as string,
+          outputTarget(),
           {
-            starting_number: args.starting_number || 1,
-            vertical_position: args.vertical_position || "bottom",
-            horizontal_position: args.horizontal_position || "center",
-            font_size: args.font_size || 14,
-            font_color: args.font_color || "#000000",
+            pages: options.pages,
+            starting_number: options.starting_number,
+            first_page: options.skip_first_page ? 2 : options.first_page,
+            facing_pages: options.facing_pages,
+            text: options.text,
+            vertical_position: options.vertical_position,
+            horizontal_position: options.horizontal_position,
+            vertical_position_adjustment: options.vertical_adjustment,
+            horizontal_position_adjustment: options.horizontal_adjustment,
+            font_family: options.font_family,
+            font_style:
+              options.font_style === "Regular" ? null : options.font_style,
+            font_size: options.font_size,
+            font_color: options.font_color,
           },
         );
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Page numbers added successfully!\nOutput: ${result.output_path}`,
-            },
-          ],
-        };
+        return toolResult(
+          `Page numbers added successfully!\nOutput: ${result.output_path}\nRegion: ${result.region}`,
+          result.metrics,
+        );
       }
 
       case "pdf_to_word": {
         const result = await processPDF(
           "extract",
           args.file_path as string,
-          args.output_path as string,
+          outputTarget(),
+        );
+        return toolResult(
+          `PDF text extracted!\nOutput: ${result.output_path}\nRegion: ${result.region}`,
+          result.metrics,
         );
-        return {
-          content: [
-            {
-              type: "text",
-              text: `PDF converted to Word!\nOutput: ${result.output_path}`,
-            },
-          ],
-        };
       }
 
       case "office_to_pdf": {
         const result = await processPDF(
           "officepdf",
           args.file_path as string,
-          args.output_path as string,
+          outputTarget(),
+        );
+        return toolResult(
+          `Office file converted to PDF!\nOutput: ${result.output_path}\nRegion: ${result.region}`,
+          result.metrics,
         );
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Office file converted to PDF!\nOutput: ${result.output_path}`,
-            },
-          ],
-        };
       }
 
       case "pdf_ocr": {
         const result = await processPDF(
           "pdfocr",
           args.file_path as string,
-          args.output_path as string,
+          outputTarget(),
           {
             ocr_languages: args.languages || ["eng"],
           },
         );
-        return {
-          content: [
-            {
-              type: "text",
-              text: `OCR applied successfully!\nOutput: ${result.output_path}`,
-            },
-          ],
-        };
+        return toolResult(
+          `OCR applied successfully!\nOutput: ${result.output_path}\nRegion: ${result.region}`,
+          result.metrics,
+        );
       }
 
       case "repair_pdf": {
         const result = await processPDF(
           "repair",
           args.file_path as string,
-          args.output_path as string,
+          outputTarget(),
+        );
+        return toolResult(
+          `PDF repaired successfully!\nOutput: ${result.output_path}\nRegion: ${result.region}`,
+          result.metrics,
+        );
+      }
+
+      case "pdf_to_pdfa": {
+        const result = await processPDF(
+          "pdfa",
+          args.file_path as string,
+          outputTarget(),
+          {
+            conformance: z
+              .enum(PDFA_CONFORMANCE)
+              .parse(args.conformance ?? "pdfa-2b"),
+            allow_downgrade: args.allow_downgrade !== false,
+          },
+        );
+        return toolResult(
+          `PDF converted to PDF/A!\nOutput: ${result.output_path}\nRegion: ${result.region}`,
+          result.metrics,
+        );
+      }
+
+      case "validate_pdfa": {
+        const conformance = z
+          .enum(PDFA_CONFORMANCE)
+          .parse(args.conformance ?? "pdfa-2b");
+        const result = await processPDF(
+          "validatepdfa",
+          args.file_path as string,
+          undefined,
+          { conformance },
         );
+        const validations = result.process.validations ?? [];
+        const conformant =
+          validations.length > 0 &&
+          validations.every((v) => v.status === "Conformant");
+        const report = {
+          file_path: args.file_path,
+          conformance,
+          conformant,
+          validations,
+          region: result.region,
+          metrics: result.metrics,
+        };
         return {
-          content: [
-            {
-              type: "text",
-              text: `PDF repaired successfully!\nOutput: ${result.output_path}`,
-            },
-          ],
+          content: [{ type: "text", text: JSON.stringify(report, null, 2) }],
+          structuredContent: report,
         };
       }
 
+      case "html_to_pdf": {
+        const url = z.string().parse(args.url);
+        if (!isRemoteUrl(url)) {
+          throw new Error(`url must be an http(s) URL: ${url}`);
+        }
+        const result = await processPDF("htmlpdf", url, outputTarget(), {
+          page_size: args.page_size || "A4",
+          page_orientation: args.page_orientation || "portrait",
+          page_margin: args.page_margin || 0,
+          view_width: args.view_width || 1920,
+          single_page: args.single_page === true,
+          block_ads: args.block_ads === true,
+          remove_popups: args.remove_popups === true,
+        });
+        return toolResult(
+          `Web page converted to PDF!\nOutput: ${result.output_path}\nRegion: ${result.region}`,
+          result.metrics,
+        );
+      }
+
+      case "edit_pdf": {
+        const texts = z
+          .array(TextElementSchema)
+          .parse(args.text_elements ?? []);
+        const images = z
+          .array(FileElementSchema)
+          .parse(args.image_elements ?? []);
+        const shapes = z
+          .array(FileElementSchema)
+          .parse(args.shape_elements ?? []);
+        if (texts.length + images.length + shapes.length === 0) {
+          throw new Error(
+            "edit_pdf needs at least one text, image or shape element",
+          );
+        }
+
+        const result = await processPDF(
+          "editpdf",
+          args.file_path as string,
+          outputTarget(),
+          (assets) => ({
+            elements: buildEditElements(texts, images, shapes, assets),
+          }),
+          [...images, ...shapes].map((element) => element.file_path),
+        );
+        return toolResult(
+          `PDF edited successfully!\nOutput: ${result.output_path}\nRegion: ${result.region}\nElements added: ${texts.length + images.length + shapes.length}`,
+          result.metrics,
+        );
+      }
+
       case "compress_image": {
         const result = await processImage(
           "compressimage",
           args.file_path as string,
-          args.output_path as string,
+          outputTarget(),
           {
             compression_level: args.compression_level || "recommended",
           },
         );
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Image compressed successfully!\nOutput: ${result.output_path}`,
-            },
-          ],
-        };
+        return toolResult(
+          `Image compressed successfully!\nOutput: ${result.output_path}\nRegion: ${result.region}`,
+          result.metrics,
+        );
       }
 
       case "resize_image": {
@@ -1227,71 +3220,346 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         const result = await processImage(
           "resizeimage",
           args.file_path as string,
-          args.output_path as string,
+          outputTarget(),
           options,
         );
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Image resized successfully!\nOutput: ${result.output_path}`,
-            },
-          ],
-        };
+        return toolResult(
+          `Image resized successfully!\nOutput: ${result.output_path}\nRegion: ${result.region}`,
+          result.metrics,
+        );
       }
 
       case "convert_image": {
         const result = await processImage(
           "convertimage",
           args.file_path as string,
-          args.output_path as string,
+          outputTarget(),
           {
             to: args.to_format || "jpg",
           },
         );
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Image converted successfully!\nOutput: ${result.output_path}`,
-            },
-          ],
-        };
+        return toolResult(
+          `Image converted successfully!\nOutput: ${result.output_path}\nRegion: ${result.region}`,
+          result.metrics,
+        );
       }
 
       case "remove_background": {
         const result = await processImage(
           "removebackgroundimage",
           args.file_path as string,
-          args.output_path as string,
+          outputTarget(),
+        );
+        return toolResult(
+          `Background removed successfully!\nOutput: ${result.output_path}\nRegion: ${result.region}`,
+          result.metrics,
         );
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Background removed successfully!\nOutput: ${result.output_path}`,
-            },
-          ],
-        };
       }
 
       case "upscale_image": {
         const result = await processImage(
           "upscaleimage",
           args.file_path as string,
-          args.output_path as string,
+          outputTarget(),
           {
             multiplier: args.multiplier || 2,
           },
         );
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Image upscaled successfully!\nOutput: ${result.output_path}`,
-            },
-          ],
-        };
+        return toolResult(
+          `Image upscaled successfully!\nOutput: ${result.output_path}\nRegion: ${result.region}`,
+          result.metrics,
+        );
+      }
+
+      case "crop_image": {
+        const result = await processImage(
+          "cropimage",
+          args.file_path as string,
+          outputTarget(),
+          {
+            width: z.number().positive().parse(args.width),
+            height: z.number().positive().parse(args.height),
+            x: args.x || 0,
+            y: args.y || 0,
+          },
+        );
+        return toolResult(
+          `Image cropped successfully!\nOutput: ${result.output_path}\nRegion: ${result.region}`,
+          result.metrics,
+        );
+      }
+
+      case "watermark_image": {
+        const layers = z.array(WatermarkLayerSchema).min(1).parse(args.layers);
+        const result = await processImage(
+          "watermarkimage",
+          args.file_path as string,
+          outputTarget(),
+          (assets) => ({ elements: buildWatermarkLayers(layers, assets) }),
+          layers.flatMap((layer) =>
+            layer.type === "image" && layer.file_path ? [layer.file_path] : [],
+          ),
+        );
+        return toolResult(
+          `Image watermarked successfully!\nOutput: ${result.output_path}\nRegion: ${result.region}\nLayers: ${layers.length}`,
+          result.metrics,
+        );
+      }
+
+      case "repair_image": {
+        const result = await processImage(
+          "repairimage",
+          args.file_path as string,
+          outputTarget(),
+        );
+        return toolResult(
+          `Image repaired successfully!\nOutput: ${result.output_path}\nRegion: ${result.region}`,
+          result.metrics,
+        );
+      }
+
+      case "rotate_image": {
+        const inputs =
+          args.files !== undefined
+            ? parseInputFiles(args)
+            : [
+                InputFileSchema.parse({
+                  file_path: args.file_path,
+                  rotate: args.rotation ?? 90,
+                }),
+              ];
+        const result = await processImage(
+          "rotateimage",
+          inputs,
+          outputTarget(),
+        );
+        return toolResult(
+          `Image rotated successfully!\nOutput: ${result.output_path}\nRegion: ${result.region}\nFiles rotated: ${result.files}`,
+          result.metrics,
+        );
+      }
+
+      case "create_signature_request": {
+        const files = z
+          .array(z.string())
+          .min(1)
+          .parse(args.file_paths)
+          .map((file_path) => ({ file_path }));
+        const signers = z.array(SignerSchema).min(1).parse(args.signers);
+        for (const signer of signers) {
+          const field = signer.fields.find((f) => f.file_index >= files.length);
+          if (field) {
+            throw new Error(
+              `Field for ${signer.email} refers to file_index ${field.file_index}, but only ${files.length} file(s) were given`,
+            );
+          }
+        }
+        await validateInputs(files);
+        const auth = getAuth();
+        const region = getRegion();
+        signal?.throwIfAborted();
+
+        // The signature request keeps using the task's files, so the task
+        // is only deleted when creating the request fails.
+        const taskInfo = await withToken(auth, (token) =>
+          startTask("sign", token, region),
+        );
+        let signature: SignatureRequest;
+        try {
+          const uploaded: TaskFile[] = [];
+          for (const { file_path } of files) {
+            const upload = await withToken(auth, (token) =>
+              isRemoteUrl(file_path)
+                ? uploadUrl(
+                    taskInfo.server,
+                    taskInfo.task,
+                    token,
+                    file_path,
+                    signal,
+                  )
+                : uploadFile(
+                    taskInfo.server,
+                    taskInfo.task,
+                    token,
+                    file_path,
+                    signal,
+                  ),
+            );
+            uploaded.push({
+              server_filename: upload.server_filename,
+              filename: inputFilename(file_path),
+            });
+          }
+
+          signal?.throwIfAborted();
+          signature = await withToken(auth, (token) =>
+            createSignature(taskInfo.server, taskInfo.task, token, {
+              files: uploaded,
+              signers: buildSigners(
+                signers,
+                uploaded.map((f) => f.server_filename),
+              ),
+              subject_signer: args.subject,
+              message_signer: args.message,
+              language: args.language || "en-US",
+              lock_order: args.lock_order === true,
+              expiration_days: args.expiration_days || 120,
+              signer_reminders: args.reminder_days !== undefined,
+              signer_reminder_days_cycle: args.reminder_days,
+            }),
+          );
+        } catch (error) {
+          await withToken(auth, (token) =>
+            deleteTask(taskInfo.server, taskInfo.task, token),
+          ).catch((cleanupError) =>
+            console.error(
+              `Failed to delete task ${taskInfo.task}: ${describeError(cleanupError)}`,
+            ),
+          );
+          throw error;
+        }
+
+        return structuredResult(
+          `Signature request sent!\nSignature ID: ${signature.token_requester}\nStatus: ${signature.status}\nRecipients: ${signers.map((s) => `${s.name} <${s.email}> (${s.role})`).join(", ")}\nRegion: ${region}`,
+          {
+            signature_id: signature.token_requester,
+            status: signature.status,
+            region,
+            task: taskInfo.task,
+            signers: signers.map((s) => ({
+              name: s.name,
+              email: s.email,
+              role: s.role,
+            })),
+          },
+        );
+      }
+
+      case "get_signature_status": {
+        const signatureId = z.string().min(1).parse(args.signature_id);
+        const response = await withToken(getAuth(), (token) =>
+          signatureRequest(
+            "Signature status",
+            "GET",
+            `requesterview/${encodeURIComponent(signatureId)}`,
+            token,
+          ),
+        );
+        const signature = (await response.json()) as SignatureRequest;
+        return structuredResult(
+          `Signature ${signatureId}: ${signature.status}`,
+          {
+            signature_id: signature.token_requester ?? signatureId,
+            status: signature.status,
+            created: signature.created,
+            expires: signature.expires,
+            signers: (signature.signers ?? []).map((signer) => ({
+              name: signer.name,
+              email: signer.email,
+              role: signer.type,
+              status: signer.status,
+            })),
+          },
+        );
+      }
+
+      case "send_signature_reminders": {
+        const signatureId = z.string().min(1).parse(args.signature_id);
+        await withToken(getAuth(), (token) =>
+          signatureRequest(
+            "Send reminders",
+            "POST",
+            `sendReminder/${encodeURIComponent(signatureId)}`,
+            token,
+          ),
+        );
+        return structuredResult(`Reminders sent for signature ${signatureId}`, {
+          signature_id: signatureId,
+          reminders_sent: true,
+        });
+      }
+
+      case "void_signature_request": {
+        const signatureId = z.string().min(1).parse(args.signature_id);
+        await withToken(getAuth(), (token) =>
+          signatureRequest(
+            "Void signature",
+            "PUT",
+            `void/${encodeURIComponent(signatureId)}`,
+            token,
+          ),
+        );
+        return structuredResult(`Signature request ${signatureId} voided`, {
+          signature_id: signatureId,
+          status: "voided",
+        });
+      }
+
+      case "download_signature": {
+        const signatureId = z.string().min(1).parse(args.signature_id);
+        const document = z
+          .enum(SIGNATURE_DOCUMENTS)
+          .parse(args.document ?? "signed");
+        const { output_path: outputPath } = z
+          .object({ output_path: z.string().min(1) })
+          .parse(args);
+        await withToken(getAuth(), async (token) =>
+          writeResponse(
+            await signatureRequest(
+              "Download signature",
+              "GET",
+              `${encodeURIComponent(signatureId)}/download-${document}`,
+              token,
+            ),
+            outputPath,
+          ),
+        );
+        return structuredResult(
+          `Signature ${document} document downloaded!\nOutput: ${outputPath}`,
+          { signature_id: signatureId, document, output_path: outputPath },
+        );
+      }
+
+      case "run_pipeline":
+        return runPipeline(args, outputTarget, {
+          callTool,
+          reportProgress,
+          signal,
+        });
+
+      case "batch":
+        return runBatch(args, { callTool, reportProgress, signal });
+
+      case "get_job_status": {
+        const job = getJob(z.string().min(1).parse(args.job_id));
+        return jobResult(
+          `Job ${job.status}: ${job.stage} (${jobSummary(job).percent}%)`,
+          job,
+        );
+      }
+
+      case "get_job_result": {
+        const job = getJob(z.string().min(1).parse(args.job_id));
+        if (job.status === "running") {
+          return jobResult(
+            `Job still running: ${job.stage}. Call get_job_result again once get_job_status reports it finished.`,
+            job,
+          );
+        }
+        if (job.status === "cancelled") {
+          throw new Error(`Job ${job.id} was cancelled`);
+        }
+        return job.result as CallToolResult;
+      }
+
+      case "cancel_job": {
+        const job = cancelJob(z.string().min(1).parse(args.job_id));
+        return jobResult(
+          job.status === "cancelled"
+            ? "Job cancelled."
+            : `Job already finished (${job.status}); nothing to cancel.`,
+          job,
+        );
       }
 
       default:
@@ -1302,13 +3570,13 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       content: [
         {
           type: "text",
-          text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          text: `Error: ${describeError(error)}`,
         },
       ],
       isError: true,
     };
   }
-});
+}
 
 async function main() {
   const transport = new StdioServerTransport();
@@ -0,0 +1,191 @@
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import * as crypto from "crypto";
+
+export const JOB_STATUSES = [
+  "running",
+  "succeeded",
+  "failed",
+  "cancelled",
+] as const;
+
+export type JobStatus = (typeof JOB_STATUSES)[number];
+
+// Finished jobs are forgotten after this long; running ones are kept.
+const JOB_RETENTION_MS = 60 * 60 * 1000;
+
+export interface Job {
+  id: string;
+  tool: string;
+  status: JobStatus;
+  stage: string;
+  progress: number;
+  total: number;
+  created_at: number;
+  updated_at: number;
+  finished_at?: number;
+  output_paths: string[];
+  error?: string;
+  result?: CallToolResult;
+  controller: AbortController;
+}
+
+export interface JobSummary {
+  job_id: string;
+  tool: string;
+  status: JobStatus;
+  stage: string;
+  progress: number;
+  total: number;
+  percent: number;
+  created_at: string;
+  finished_at?: string;
+  elapsed_ms: number;
+  output_paths: string[];
+  error?: string;
+}
+
+const jobs = new Map<string, Job>();
+
+function pruneJobs(now: number): void {
+  for (const [id, job] of jobs) {
+    if (
+      job.finished_at !== undefined &&
+      now - job.finished_at > JOB_RETENTION_MS
+    ) {
+      jobs.delete(id);
+    }
+  }
+}
+
+function resultText(result: CallToolResult): string {
+  const block = result.content[0];
+  return block?.type === "text" ? block.text.replace(/^Error: /, "") : "";
+}
+
+// Tool results carry their files as output_paths; batch lists them per input.
+function resultOutputPaths(result: CallToolResult): string[] {
+  const content = result.structuredContent ?? {};
+  if (Array.isArray(content.output_paths)) {
+    return content.output_paths.map(String);
+  }
+  if (Array.isArray(content.results)) {
+    return content.results.flatMap((entry: { output_paths?: unknown }) =>
+      Array.isArray(entry.output_paths) ? entry.output_paths.map(String) : [],
+    );
+  }
+  return [];
+}
+
+/**
+ * Registers a job for `tool` and starts `run` without waiting for it. The
+ * job's signal is aborted by cancelJob; `run` reports its result, whose
+ * isError flag decides between "succeeded" and "failed".
+ */
+export function startJob(
+  tool: string,
+  run: (job: Job) => Promise<CallToolResult>,
+): Job {
+  const now = Date.now();
+  pruneJobs(now);
+  const job: Job = {
+    id: crypto.randomUUID(),
+    tool,
+    status: "running",
+    stage: "Queued",
+    progress: 0,
+    total: 1,
+    created_at: now,
+    updated_at: now,
+    output_paths: [],
+    controller: new AbortController(),
+  };
+  jobs.set(job.id, job);
+
+  const finish = (result: CallToolResult) => {
+    if (job.status !== "running") {
+      return;
+    }
+    job.result = result;
+    job.status = result.isError ? "failed" : "succeeded";
+    job.error = result.isError ? resultText(result) : undefined;
+    job.output_paths = resultOutputPaths(result);
+    job.stage = result.isError ? "Failed" : "Done";
+    job.finished_at = job.updated_at = Date.now();
+  };
+  run(job).then(finish, (error) =>
+    finish({
+      content: [
+        {
+          type: "text",
+          text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+        },
+      ],
+      isError: true,
+    }),
+  );
+  return job;
+}
+
+/**
+ * Records the stage a running job has reached. Progress only moves forward,
+ * as with MCP progress notifications.
+ */
+export function updateJob(
+  job: Job,
+  progress: number,
+  total: number,
+  stage: string,
+): void {
+  if (job.status !== "running" || progress / total < job.progress / job.total) {
+    return;
+  }
+  Object.assign(job, { progress, total, stage, updated_at: Date.now() });
+}
+
+export function getJob(id: string): Job {
+  const job = jobs.get(id);
+  if (!job) {
+    throw new Error(
+      `Unknown job "${id}"; finished jobs are kept for ${JOB_RETENTION_MS / 60_000} minutes`,
+    );
+  }
+  return job;
+}
+
+/**
+ * Marks a running job as cancelled and aborts its signal, which stops the
+ * work at its next request. Finished jobs are left as they are.
+ */
+export function cancelJob(id: string): Job {
+  const job = getJob(id);
+  if (job.status === "running") {
+    job.status = "cancelled";
+    job.stage = "Cancelled";
+    job.finished_at = job.updated_at = Date.now();
+    job.controller.abort(new Error("Job was cancelled"));
+  }
+  return job;
+}
+
+export function jobSummary(job: Job): JobSummary {
+  return {
+    job_id: job.id,
+    tool: job.tool,
+    status: job.status,
+    stage: job.stage,
+    progress: job.progress,
+    total: job.total,
+    percent:
+      job.status === "succeeded"
+        ? 100
+        : Math.floor((job.progress / job.total) * 100),
+    created_at: new Date(job.created_at).toISOString(),
+    finished_at:
+      job.finished_at === undefined
+        ? undefined
+        : new Date(job.finished_at).toISOString(),
+    elapsed_ms: (job.finished_at ?? Date.now()) - job.created_at,
+    output_paths: job.output_paths,
+    error: job.error,
+  };
+}
@@ -0,0 +1,544 @@
+#!/usr/bin/env node
+import * as crypto from "crypto";
+import * as http from "http";
+import * as path from "path";
+import { pathToFileURL } from "url";
+
+/**
+ * An in-process stand-in for the iLovePDF API. It implements auth, start,
+ * upload, process, download and delete with fixture outputs, so the server
+ * can be exercised offline by pointing ILOVEPDF_API_BASE at `apiBase` and
+ * setting ILOVEPDF_SERVER_SCHEME=http.
+ */
+
+export interface MockRequest {
+  method: string;
+  path: string;
+  body?: unknown;
+}
+
+export interface MockUpload {
+  server_filename: string;
+  filename: string;
+  size: number;
+  cloud_file?: string;
+}
+
+export interface MockTask {
+  task: string;
+  tool: string;
+  region: string;
+  uploads: MockUpload[];
+  processed?: Record<string, unknown>;
+  output?: { filename: string; data: Buffer };
+}
+
+export interface MockSignature {
+  token_requester: string;
+  status: string;
+  signers: Array<{ name: string; email: string; type: string; status: string }>;
+  reminders: number;
+}
+
+export interface MockServer {
+  url: string;
+  apiBase: string;
+  requests: MockRequest[];
+  tasks: Map<string, MockTask>;
+  signatures: Map<string, MockSignature>;
+  failNext(
+    route: string,
+    status: number,
+    body?: unknown,
+    headers?: Record<string, string>,
+  ): void;
+  close(): Promise<void>;
+}
+
+export interface MockServerOptions {
+  port?: number;
+  credits?: number;
+  // Holds back the reply to an upload, e.g. to make uploads finish out of
+  // order. The upload is recorded on the task once the delay is over.
+  uploadDelayMs?: (filename: string) => number;
+}
+
+const PDF_FIXTURE = Buffer.from(
+  "%PDF-1.4\n1 0 obj<</Type/Catalog/Pages 2 0 R>>endobj\n2 0 obj<</Type/Pages/Kids[]/Count 0>>endobj\ntrailer<</Root 1 0 R>>\n%%EOF\n",
+);
+
+const PNG_FIXTURE = Buffer.from(
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==",
+  "base64",
+);
+
+const JPG_FIXTURE = Buffer.from([
+  0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00, 0x01, 0xff,
+  0xd9,
+]);
+
+// Tools that return one file per page or range rather than per input.
+const SPLITTING_TOOLS = new Set(["split", "pdfjpg"]);
+
+// Tools that combine every input into a single output.
+const COMBINING_TOOLS = new Set(["merge", "imagepdf"]);
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Builds an uncompressed ZIP archive, which is all the fixtures need.
+ */
+export function createZip(
+  entries: Array<{ name: string; data: Buffer }>,
+): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name);
+    const crc = crc32(entry.data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(entry.data.length, 18);
+    local.writeUInt32LE(entry.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    locals.push(local, name, entry.data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(entry.data.length, 20);
+    central.writeUInt32LE(entry.data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+
+    offset += local.length + name.length + entry.data.length;
+  }
+
+  const centralSize = centrals.reduce((sum, b) => sum + b.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralSize, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, ...centrals, end]);
+}
+
+function outputExtension(
+  tool: string,
+  filename: string,
+  options: Record<string, unknown>,
+): string {
+  if (tool === "convertimage" && typeof options.to === "string") {
+    return options.to;
+  }
+  if (tool === "removebackgroundimage") return "png";
+  if (tool === "pdfjpg") return "jpg";
+  if (tool === "extract") return "txt";
+  if (tool.endsWith("image")) {
+    return path.extname(filename).slice(1) || "jpg";
+  }
+  return "pdf";
+}
+
+function fixtureFor(extension: string): Buffer {
+  if (extension === "png") return PNG_FIXTURE;
+  if (extension === "jpg" || extension === "jpeg") return JPG_FIXTURE;
+  if (extension === "txt") return Buffer.from("mock text\n");
+  if (extension === "pdf") return PDF_FIXTURE;
+  return Buffer.from(`mock ${extension}\n`);
+}
+
+function buildOutput(
+  task: MockTask,
+  inputs: MockUpload[],
+  options: Record<string, unknown>,
+): { filename: string; data: Buffer; count: number; extensions: string[] } {
+  const outputs = inputs.map((upload) => {
+    const base = path.basename(upload.filename, path.extname(upload.filename));
+    const extension = outputExtension(task.tool, upload.filename, options);
+    return { base, extension };
+  });
+
+  if (COMBINING_TOOLS.has(task.tool)) {
+    return {
+      filename: "output.pdf",
+      data: PDF_FIXTURE,
+      count: 1,
+      extensions: ["pdf"],
+    };
+  }
+
+  const entries = outputs.flatMap(({ base, extension }) =>
+    SPLITTING_TOOLS.has(task.tool)
+      ? [1, 2].map((n) => ({
+          name: `${base}-${n}.${extension}`,
+          data: fixtureFor(extension),
+        }))
+      : [{ name: `${base}.${extension}`, data: fixtureFor(extension) }],
+  );
+
+  const extensions = [...new Set(outputs.map((o) => o.extension))];
+  if (entries.length === 1) {
+    return {
+      filename: entries[0].name,
+      data: entries[0].data,
+      count: 1,
+      extensions,
+    };
+  }
+  return {
+    filename: "output.zip",
+    data: createZip(entries),
+    count: entries.length,
+    extensions,
+  };
+}
+
+function readBody(req: http.IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+}
+
+function multipartField(body: string, name: string): string | undefined {
+  const match = new RegExp(`name="${name}"\\r\\n\\r\\n([^\\r]*)`).exec(body);
+  return match?.[1];
+}
+
+// Size of the uploaded file part, without the multipart framing.
+function multipartFileSize(
+  body: string,
+  contentType: string,
+): number | undefined {
+  const boundary = /boundary=([^;]+)/.exec(contentType)?.[1];
+  const header = body.indexOf('name="file"');
+  if (!boundary || header === -1) {
+    return undefined;
+  }
+  const start = body.indexOf("\r\n\r\n", header) + 4;
+  const end = body.indexOf(`\r\n--${boundary}`, start);
+  return end === -1 ? undefined : end - start;
+}
+
+function sendJson(
+  res: http.ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {},
+) {
+  res.writeHead(status, { ...headers, "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function sendError(
+  res: http.ServerResponse,
+  status: number,
+  message: string,
+  param?: Record<string, unknown>,
+) {
+  sendJson(res, status, { error: { type: "MockError", message, param } });
+}
+
+export async function startMockServer(
+  options: MockServerOptions = {},
+): Promise<MockServer> {
+  const requests: MockRequest[] = [];
+  const tasks = new Map<string, MockTask>();
+  const signatures = new Map<string, MockSignature>();
+  const failures: Array<{
+    route: string;
+    status: number;
+    body?: unknown;
+    headers?: Record<string, string>;
+  }> = [];
+  let credits = options.credits ?? 250;
+  let host = "";
+
+  const handle = async (
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+  ) => {
+    const method = req.method ?? "GET";
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const segments = url.pathname.split("/").filter(Boolean);
+    const raw = await readBody(req);
+    const isJson = (req.headers["content-type"] ?? "").includes("json");
+    const body = isJson ? JSON.parse(raw.toString() || "{}") : undefined;
+    requests.push({ method, path: url.pathname, body });
+
+    if (segments[0] !== "v1") {
+      return sendError(res, 404, `Not found: ${url.pathname}`);
+    }
+    const route = segments[1] ?? "";
+
+    const failure = failures.findIndex((f) => f.route === route);
+    if (failure !== -1) {
+      const [{ status, body: failureBody, headers }] = failures.splice(
+        failure,
+        1,
+      );
+      return sendJson(
+        res,
+        status,
+        failureBody ?? { error: { message: `Mock ${status}` } },
+        headers,
+      );
+    }
+
+    if (route === "auth" && method === "POST") {
+      if (!body?.public_key) {
+        return sendError(res, 400, "public_key is required");
+      }
+      return sendJson(res, 200, { token: `mock.${body.public_key}.token` });
+    }
+
+    if (!/^Bearer \S+/.test(req.headers.authorization ?? "")) {
+      return sendJson(res, 401, {
+        name: "Unauthorized",
+        message: "Missing token",
+      });
+    }
+
+    if (route === "start" && method === "GET") {
+      const [, , tool, region = "us"] = segments;
+      if (!tool) {
+        return sendError(res, 400, "Tool is required");
+      }
+      if (credits <= 0) {
+        return sendError(res, 402, "Not enough credits");
+      }
+      const task = crypto.randomBytes(8).toString("hex");
+      tasks.set(task, { task, tool, region, uploads: [] });
+      return sendJson(res, 200, {
+        server: host,
+        task,
+        remaining_credits: credits,
+      });
+    }
+
+    if (route === "upload" && method === "POST") {
+      const text = raw.toString("latin1");
+      const task = tasks.get(multipartField(text, "task") ?? "");
+      if (!task) {
+        return sendError(res, 400, "Unknown task", { task: "Not found" });
+      }
+      const cloudFile = multipartField(text, "cloud_file");
+      const filename =
+        /name="file"; filename="([^"]+)"/.exec(text)?.[1] ??
+        (cloudFile && path.posix.basename(new URL(cloudFile).pathname));
+      if (!filename) {
+        return sendError(res, 400, "No file uploaded", {
+          file: "Required",
+        });
+      }
+      const delay = options.uploadDelayMs?.(filename) ?? 0;
+      if (delay > 0) {
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+      const upload: MockUpload = {
+        server_filename: `${crypto.randomBytes(6).toString("hex")}${path.extname(filename)}`,
+        filename,
+        size:
+          multipartFileSize(text, req.headers["content-type"] ?? "") ??
+          raw.length,
+        cloud_file: cloudFile,
+      };
+      task.uploads.push(upload);
+      return sendJson(res, 200, { server_filename: upload.server_filename });
+    }
+
+    if (route === "process" && method === "POST") {
+      const task = tasks.get(body?.task);
+      if (!task) {
+        return sendError(res, 400, "Unknown task", { task: "Not found" });
+      }
+      const files: Array<{ server_filename?: string }> = body.files ?? [];
+      const inputs = files.map((f) =>
+        task.uploads.find((u) => u.server_filename === f.server_filename),
+      );
+      const missing = inputs.findIndex((upload) => !upload);
+      if (files.length === 0 || missing !== -1) {
+        return sendError(res, 400, "Invalid files", {
+          [`files[${Math.max(missing, 0)}]`]: "Unknown server_filename",
+        });
+      }
+
+      const started = Date.now();
+      const uploads = inputs as MockUpload[];
+      const output = buildOutput(task, uploads, body);
+      task.processed = body;
+      task.output = output;
+      credits -= uploads.length;
+      return sendJson(res, 200, {
+        download_filename: output.filename,
+        filesize: uploads.reduce((sum, u) => sum + u.size, 0),
+        output_filesize: output.data.length,
+        output_filenumber: output.count,
+        // Encoded as a string, like the real API.
+        output_extensions: JSON.stringify(output.extensions),
+        timer: ((Date.now() - started) / 1000).toFixed(3),
+        status: "TaskSuccess",
+        validations:
+          task.tool === "validatepdfa"
+            ? uploads.map((u) => ({
+                server_filename: u.server_filename,
+                status: "Conformant",
+              }))
+            : undefined,
+      });
+    }
+
+    if (route === "download" && method === "GET") {
+      const task = tasks.get(segments[2] ?? "");
+      if (!task?.output) {
+        return sendError(res, 404, "Nothing to download");
+      }
+      const { filename, data } = task.output;
+      res.writeHead(200, {
+        "Content-Type": filename.endsWith(".zip")
+          ? "application/zip"
+          : "application/octet-stream",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Content-Length": data.length,
+      });
+      return res.end(data);
+    }
+
+    if (route === "signature") {
+      return handleSignature(method, segments.slice(2), body, res);
+    }
+
+    if (route === "task" && method === "DELETE") {
+      if (!tasks.delete(segments[2] ?? "")) {
+        return sendError(res, 404, "Unknown task");
+      }
+      return sendJson(res, 200, {});
+    }
+
+    return sendError(res, 404, `Not found: ${method} ${url.pathname}`);
+  };
+
+  const handleSignature = (
+    method: string,
+    [action = "", id = ""]: string[],
+    body: Record<string, unknown> | undefined,
+    res: http.ServerResponse,
+  ) => {
+    if (method === "POST" && action === "") {
+      const task = tasks.get(String(body?.task));
+      if (!task || task.tool !== "sign") {
+        return sendError(res, 400, "Unknown sign task", { task: "Not found" });
+      }
+      const signers = (body?.signers ?? []) as Array<Record<string, string>>;
+      if (signers.length === 0) {
+        return sendError(res, 400, "Invalid signers", {
+          signers: "At least one signer is required",
+        });
+      }
+      const signature: MockSignature = {
+        token_requester: crypto.randomBytes(8).toString("hex"),
+        status: "sent",
+        signers: signers.map((signer) => ({
+          name: signer.name,
+          email: signer.email,
+          type: signer.type,
+          status: "waiting",
+        })),
+        reminders: 0,
+      };
+      signatures.set(signature.token_requester, signature);
+      return sendJson(res, 200, signature);
+    }
+
+    // Management endpoints put the requester token either first
+    // (/signature/{token}/download-signed) or second (/signature/void/{token}).
+    const signature = signatures.get(id) ?? signatures.get(action);
+    if (!signature) {
+      return sendError(res, 404, "Unknown signature");
+    }
+    if (method === "GET" && action === "requesterview") {
+      return sendJson(res, 200, signature);
+    }
+    if (method === "POST" && action === "sendReminder") {
+      signature.reminders++;
+      return sendJson(res, 200, {});
+    }
+    if (method === "PUT" && action === "void") {
+      signature.status = "void";
+      return sendJson(res, 200, {});
+    }
+    if (method === "GET" && id.startsWith("download-")) {
+      res.writeHead(200, { "Content-Type": "application/pdf" });
+      return res.end(PDF_FIXTURE);
+    }
+    return sendError(res, 404, `Not found: signature/${action}/${id}`);
+  };
+
+  const server = http.createServer((req, res) => {
+    handle(req, res).catch((error) =>
+      sendError(res, 500, error instanceof Error ? error.message : "Error"),
+    );
+  });
+
+  await new Promise<void>((resolve) =>
+    server.listen(options.port ?? 0, "127.0.0.1", resolve),
+  );
+  const { port } = server.address() as { port: number };
+  host = `127.0.0.1:${port}`;
+
+  return {
+    url: `http://${host}`,
+    apiBase: `http://${host}/v1`,
+    requests,
+    tasks,
+    signatures,
+    failNext(route, status, body, headers) {
+      failures.push({ route, status, body, headers });
+    },
+    close() {
+      return new Promise((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve())),
+      );
+    },
+  };
+}
+
+if (
+  process.argv[1] &&
+  import.meta.url === pathToFileURL(process.argv[1]).href
+) {
+  startMockServer({ port: Number(process.env.ILOVEPDF_MOCK_PORT) || 0 }).then(
+    (mock) => {
+      console.error(`Mock iLovePDF API listening on ${mock.url}`);
+      console.error(`ILOVEPDF_API_BASE=${mock.apiBase}`);
+      console.error("ILOVEPDF_SERVER_SCHEME=http");
+    },
+  );
+}
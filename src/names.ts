@@ -0,0 +1,32 @@
+import * as path from "path";
+
+export function isRemoteUrl(input: string): boolean {
+  return /^https?:\/\//i.test(input);
+}
+
+export function inputFilename(input: string): string {
+  if (!isRemoteUrl(input)) {
+    return path.basename(input);
+  }
+  return path.posix.basename(new URL(input).pathname) || "file";
+}
+
+// Adds "-2", "-3"... before the extension until `name` is not in `used`.
+export function uniqueName(name: string, used: Set<string>): string {
+  const extension = path.extname(name);
+  let unique = name;
+  for (let n = 2; used.has(unique); n++) {
+    unique = `${path.basename(name, extension)}-${n}${extension}`;
+  }
+  used.add(unique);
+  return unique;
+}
+
+/**
+ * The names inputs are sent to /process under, made unique the same way
+ * extracted ZIP entries are so results can be matched back to their inputs.
+ */
+export function taskFilenames(inputs: string[]): string[] {
+  const used = new Set<string>();
+  return inputs.map((input) => uniqueName(inputFilename(input), used));
+}
@@ -0,0 +1,225 @@
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  describeError,
+  resultMetrics,
+  resultText,
+  sharedArguments,
+  type ResultMetrics,
+  type ToolContext,
+} from "./calls.js";
+
+// MCP tools that turn input files into output files and can be chained in
+// run_pipeline.
+export const PIPELINE_TOOLS = [
+  "compress_pdf",
+  "merge_pdf",
+  "split_pdf",
+  "pdf_to_jpg",
+  "jpg_to_pdf",
+  "unlock_pdf",
+  "protect_pdf",
+  "rotate_pdf",
+  "watermark_pdf",
+  "page_numbers",
+  "pdf_to_word",
+  "office_to_pdf",
+  "pdf_ocr",
+  "repair_pdf",
+  "pdf_to_pdfa",
+  "html_to_pdf",
+  "edit_pdf",
+  "compress_image",
+  "resize_image",
+  "convert_image",
+  "remove_background",
+  "upscale_image",
+  "crop_image",
+  "watermark_image",
+  "repair_image",
+  "rotate_image",
+] as const;
+
+// Pipeline tools that take a list of inputs in file_paths.
+export const MULTI_INPUT_TOOLS = new Set<string>(["merge_pdf", "jpg_to_pdf"]);
+
+// Stands for the previous step's output files in pipeline step arguments.
+export const PREVIOUS_OUTPUT = "$previous";
+
+const PipelineStepSchema = z.object({
+  tool: z.enum(PIPELINE_TOOLS),
+  arguments: z.record(z.unknown()).default({}),
+});
+
+type PipelineStep = z.infer<typeof PipelineStepSchema>;
+
+/**
+ * Fills in a pipeline step's inputs from the previous step's outputs:
+ * "$previous" in file_path, file_paths or files is replaced, and a step with
+ * no inputs of its own takes the previous outputs.
+ */
+function chainStepInputs(
+  step: PipelineStep,
+  index: number,
+  previous: string[],
+): Record<string, unknown> {
+  const stepArgs = { ...step.arguments };
+  const single = () => {
+    if (previous.length !== 1) {
+      throw new Error(
+        `Step ${index + 1} (${step.tool}) takes one file but the previous step produced ${previous.length}`,
+      );
+    }
+    return previous[0];
+  };
+
+  if (stepArgs.file_path === PREVIOUS_OUTPUT) {
+    stepArgs.file_path = single();
+  }
+  if (Array.isArray(stepArgs.file_paths)) {
+    stepArgs.file_paths = stepArgs.file_paths.flatMap((file) =>
+      file === PREVIOUS_OUTPUT ? previous : [file],
+    );
+  }
+  if (Array.isArray(stepArgs.files)) {
+    stepArgs.files = stepArgs.files.flatMap((file) =>
+      (file as { file_path?: unknown })?.file_path === PREVIOUS_OUTPUT
+        ? previous.map((file_path) => ({ ...(file as object), file_path }))
+        : [file],
+    );
+  }
+
+  const hasInputs = ["file_path", "file_paths", "files", "url"].some(
+    (key) => stepArgs[key] !== undefined,
+  );
+  if (!hasInputs && index > 0) {
+    if (MULTI_INPUT_TOOLS.has(step.tool)) {
+      stepArgs.file_paths = previous;
+    } else {
+      stepArgs.file_path = single();
+    }
+  }
+  return stepArgs;
+}
+
+/**
+ * Runs run_pipeline: each step's tool on the previous step's outputs, with
+ * intermediate files in a temporary directory. `outputTarget` gives the
+ * final output for a last step that names none. Stops at the first failed
+ * step and reports every step run so far.
+ */
+export async function runPipeline(
+  args: Record<string, unknown>,
+  outputTarget: () => object,
+  { callTool, reportProgress, signal }: ToolContext,
+): Promise<CallToolResult> {
+  const { steps } = z
+    .object({ steps: z.array(PipelineStepSchema).min(1) })
+    .parse(args);
+  // The last step may name its own output instead.
+  const lastArgs = steps[steps.length - 1].arguments;
+  const finalOutput =
+    lastArgs.output_path === undefined && lastArgs.output_dir === undefined
+      ? outputTarget()
+      : undefined;
+  const shared = sharedArguments(args);
+  const started = Date.now();
+  const workDir = await fs.promises.mkdtemp(
+    path.join(os.tmpdir(), "ilovepdf-pipeline-"),
+  );
+
+  const report: Array<Record<string, unknown>> = [];
+  let lastMetrics: ResultMetrics | undefined;
+  try {
+    let previous: string[] = [];
+    for (const [index, step] of steps.entries()) {
+      const last = index === steps.length - 1;
+      const stepArgs = {
+        ...shared,
+        ...chainStepInputs(step, index, previous),
+      };
+      // Intermediate results go to the work directory unless the step asks
+      // to keep them elsewhere.
+      const intermediate =
+        stepArgs.output_path === undefined && stepArgs.output_dir === undefined;
+      if (intermediate) {
+        Object.assign(
+          stepArgs,
+          last
+            ? finalOutput
+            : { output_dir: path.join(workDir, `step-${index + 1}`) },
+        );
+      }
+
+      const result = await callTool(
+        step.tool,
+        stepArgs,
+        (progress, total, message) =>
+          reportProgress(
+            index + progress / total,
+            steps.length,
+            `Step ${index + 1}/${steps.length} ${step.tool}: ${message}`,
+          ),
+        { signal },
+      );
+      if (result.isError) {
+        const text = resultText(result);
+        report.push({ step: index + 1, tool: step.tool, error: text });
+        throw new Error(
+          `Pipeline failed at step ${index + 1} (${step.tool}): ${text}`,
+        );
+      }
+
+      const metrics = resultMetrics(result);
+      previous = metrics.output_paths;
+      lastMetrics = metrics;
+      const kept = last || !intermediate;
+      report.push({
+        step: index + 1,
+        tool: step.tool,
+        ...(kept ? { output_paths: metrics.output_paths } : {}),
+        metrics: kept
+          ? metrics
+          : { ...metrics, output_path: undefined, output_paths: undefined },
+      });
+    }
+  } catch (error) {
+    const summary = {
+      success: false,
+      error: describeError(error),
+      steps: report,
+    };
+    return {
+      content: [
+        { type: "text", text: `Error: ${describeError(error)}` },
+        { type: "text", text: JSON.stringify(summary, null, 2) },
+      ],
+      structuredContent: summary,
+      isError: true,
+    };
+  } finally {
+    await fs.promises.rm(workDir, { recursive: true, force: true });
+  }
+
+  const outputPaths = lastMetrics?.output_paths ?? [];
+  const summary = {
+    success: true,
+    output_paths: outputPaths,
+    remaining_credits: lastMetrics?.remaining_credits,
+    elapsed_ms: Date.now() - started,
+    steps: report,
+  };
+  return {
+    content: [
+      {
+        type: "text",
+        text: `Pipeline completed!\nSteps: ${report.map((step) => step.tool).join(" -> ")}\nOutput: ${outputPaths.join(", ")}`,
+      },
+      { type: "text", text: JSON.stringify(summary, null, 2) },
+    ],
+    structuredContent: summary,
+  };
+}
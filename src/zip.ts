@@ -0,0 +1,147 @@
+import * as fs from "fs";
+import * as zlib from "zlib";
+import { pipeline } from "stream/promises";
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+
+export interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  dataOffset: number;
+}
+
+/**
+ * True when the file starts like a ZIP archive, including an empty one.
+ */
+export async function isZipFile(file: string): Promise<boolean> {
+  const handle = await fs.promises.open(file, "r");
+  try {
+    const { buffer, bytesRead } = await handle.read(Buffer.alloc(4), 0, 4, 0);
+    if (bytesRead < 4) {
+      return false;
+    }
+    const signature = buffer.readUInt32LE(0);
+    return signature === LOCAL_HEADER || signature === END_OF_CENTRAL_DIRECTORY;
+  } finally {
+    await handle.close();
+  }
+}
+
+async function readAt(
+  handle: fs.promises.FileHandle,
+  position: number,
+  length: number,
+): Promise<Buffer> {
+  const { buffer, bytesRead } = await handle.read(
+    Buffer.alloc(length),
+    0,
+    length,
+    position,
+  );
+  return buffer.subarray(0, bytesRead);
+}
+
+/**
+ * Lists the file entries of a ZIP archive from its central directory,
+ * without reading the entry data. Directories are skipped.
+ */
+export async function listZipEntries(file: string): Promise<ZipEntry[]> {
+  const handle = await fs.promises.open(file, "r");
+  try {
+    const { size } = await handle.stat();
+    // The end record is 22 bytes plus a comment of at most 64 KiB.
+    const tailStart = Math.max(0, size - 22 - 0xffff);
+    const tail = await readAt(handle, tailStart, size - tailStart);
+    let end = -1;
+    for (let offset = tail.length - 22; offset >= 0; offset--) {
+      if (tail.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+        end = offset;
+        break;
+      }
+    }
+    if (end === -1) {
+      throw new Error(
+        "Invalid ZIP archive: end of central directory not found",
+      );
+    }
+
+    const count = tail.readUInt16LE(end + 10);
+    const directorySize = tail.readUInt32LE(end + 12);
+    const directoryOffset = tail.readUInt32LE(end + 16);
+    if (directoryOffset === 0xffffffff || count === 0xffff) {
+      throw new Error("ZIP64 archives are not supported");
+    }
+    const directory = await readAt(handle, directoryOffset, directorySize);
+
+    const entries: ZipEntry[] = [];
+    let offset = 0;
+    for (let i = 0; i < count; i++) {
+      if (directory.readUInt32LE(offset) !== CENTRAL_HEADER) {
+        throw new Error("Invalid ZIP archive: bad central directory entry");
+      }
+      const method = directory.readUInt16LE(offset + 10);
+      const compressedSize = directory.readUInt32LE(offset + 20);
+      const nameLength = directory.readUInt16LE(offset + 28);
+      const extraLength = directory.readUInt16LE(offset + 30);
+      const commentLength = directory.readUInt16LE(offset + 32);
+      const localOffset = directory.readUInt32LE(offset + 42);
+      const name = directory.toString(
+        "utf8",
+        offset + 46,
+        offset + 46 + nameLength,
+      );
+      offset += 46 + nameLength + extraLength + commentLength;
+
+      if (name.endsWith("/")) {
+        continue;
+      }
+      const local = await readAt(handle, localOffset, 30);
+      if (local.length < 30 || local.readUInt32LE(0) !== LOCAL_HEADER) {
+        throw new Error(`Invalid ZIP archive: bad local header for ${name}`);
+      }
+      entries.push({
+        name,
+        method,
+        compressedSize,
+        dataOffset:
+          localOffset + 30 + local.readUInt16LE(26) + local.readUInt16LE(28),
+      });
+    }
+    return entries;
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Streams one entry of the archive to `target`. Only stored and deflated
+ * entries are supported, which covers what iLovePDF returns.
+ */
+export async function extractZipEntry(
+  file: string,
+  entry: ZipEntry,
+  target: string,
+): Promise<void> {
+  if (entry.method !== 0 && entry.method !== 8) {
+    throw new Error(
+      `Unsupported ZIP compression method ${entry.method} for ${entry.name}`,
+    );
+  }
+  if (entry.compressedSize === 0) {
+    await fs.promises.writeFile(target, "");
+    return;
+  }
+  const source = fs.createReadStream(file, {
+    start: entry.dataOffset,
+    end: entry.dataOffset + entry.compressedSize - 1,
+  });
+  const destination = fs.createWriteStream(target);
+  if (entry.method === 8) {
+    await pipeline(source, zlib.createInflateRaw(), destination);
+  } else {
+    await pipeline(source, destination);
+  }
+}
@@ -0,0 +1,159 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { describe, expect, it } from "vitest";
+import {
+  loadConfig,
+  resolveCredentials,
+  resolveOutputPath,
+  resolveProfile,
+  resolveRegion,
+  type ServerConfig,
+} from "../src/config.js";
+
+const config: ServerConfig = {
+  public_key: "config_public",
+  secret_key: "config_secret",
+  auth_mode: "remote",
+  default_profile: "work",
+  profiles: {
+    work: {
+      public_key: "work_public",
+      secret_key: "work_secret",
+      output_dir: "/srv/out",
+    },
+    home: { auth_mode: "local" },
+  },
+};
+
+const env = {
+  ILOVEPDF_PUBLIC_KEY: "env_public",
+  ILOVEPDF_SECRET_KEY: "env_secret",
+  ILOVEPDF_AUTH_MODE: "local",
+};
+
+describe("resolveProfile", () => {
+  it("prefers the argument, then ILOVEPDF_PROFILE, then default_profile", () => {
+    expect(resolveProfile({ profile: "home" }, config, {})?.name).toBe("home");
+    expect(resolveProfile({}, config, { ILOVEPDF_PROFILE: "home" })?.name).toBe(
+      "home",
+    );
+    expect(resolveProfile({}, config, {})?.name).toBe("work");
+    expect(resolveProfile({}, {}, {})).toBeUndefined();
+  });
+
+  it("names the available profiles when one is unknown", () => {
+    expect(() => resolveProfile({ profile: "play" }, config, {})).toThrow(
+      'Unknown profile "play" (available: work, home)',
+    );
+  });
+});
+
+describe("resolveCredentials", () => {
+  const work = resolveProfile({}, config, {});
+
+  it("takes keys from arguments, the profile, the config and the environment in turn", () => {
+    expect(
+      resolveCredentials(
+        { public_key: "arg_public", secret_key: "arg_secret" },
+        config,
+        work,
+        env,
+      ),
+    ).toMatchObject({ public_key: "arg_public", secret_key: "arg_secret" });
+    expect(resolveCredentials({}, config, work, env)).toMatchObject({
+      public_key: "work_public",
+      secret_key: "work_secret",
+    });
+    expect(resolveCredentials({}, config, undefined, env)).toMatchObject({
+      public_key: "config_public",
+      secret_key: "config_secret",
+    });
+    expect(resolveCredentials({}, {}, undefined, env)).toMatchObject({
+      public_key: "env_public",
+      secret_key: "env_secret",
+    });
+  });
+
+  it("never pairs a secret with another source's public key", () => {
+    expect(
+      resolveCredentials({ public_key: "arg_public" }, config, work, env),
+    ).toEqual({
+      public_key: "arg_public",
+      secret_key: undefined,
+      auth_mode: "remote",
+    });
+  });
+
+  it("resolves auth_mode on its own, falling back to local", () => {
+    const home = resolveProfile({ profile: "home" }, config, {});
+    expect(
+      resolveCredentials({ auth_mode: "remote" }, config, home, env).auth_mode,
+    ).toBe("remote");
+    expect(resolveCredentials({}, config, home, env).auth_mode).toBe("local");
+    expect(resolveCredentials({}, config, work, env).auth_mode).toBe("remote");
+    expect(
+      resolveCredentials({}, {}, undefined, {
+        ...env,
+        ILOVEPDF_AUTH_MODE: "remote",
+      }).auth_mode,
+    ).toBe("remote");
+    expect(
+      resolveCredentials({}, {}, undefined, { ILOVEPDF_PUBLIC_KEY: "k" })
+        .auth_mode,
+    ).toBe("local");
+  });
+
+  it("fails without any public key", () => {
+    expect(() => resolveCredentials({}, {}, undefined, {})).toThrow(
+      "No iLovePDF credentials",
+    );
+  });
+});
+
+describe("resolveRegion", () => {
+  it("prefers the argument, then the profile, the config and ILOVEPDF_REGION", () => {
+    const eu = { name: "eu", region: "eu" as const };
+    const regionEnv = { ILOVEPDF_REGION: "eu" };
+    expect(
+      resolveRegion({ region: "us" }, { region: "eu" }, eu, regionEnv),
+    ).toBe("us");
+    expect(resolveRegion({}, { region: "us" }, eu, regionEnv)).toBe("eu");
+    expect(resolveRegion({}, { region: "eu" }, undefined, {})).toBe("eu");
+    expect(resolveRegion({}, {}, undefined, regionEnv)).toBe("eu");
+    expect(resolveRegion({}, {}, undefined, {})).toBe("us");
+  });
+
+  it("rejects regions the API does not have", () => {
+    expect(() =>
+      resolveRegion({}, {}, undefined, { ILOVEPDF_REGION: "mars" }),
+    ).toThrow('Unsupported region "mars" (supported: us, eu)');
+  });
+});
+
+describe("resolveOutputPath", () => {
+  it("puts relative paths under the profile's output_dir", () => {
+    const work = resolveProfile({}, config, {});
+    expect(resolveOutputPath("a.pdf", work)).toBe(
+      path.join("/srv/out", "a.pdf"),
+    );
+    expect(resolveOutputPath("/tmp/a.pdf", work)).toBe("/tmp/a.pdf");
+    expect(resolveOutputPath("a.pdf", undefined)).toBe("a.pdf");
+  });
+});
+
+describe("loadConfig", () => {
+  it("rejects a missing or malformed file it was pointed at", async () => {
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "config-"));
+    try {
+      const file = path.join(dir, "config.json");
+      expect(() => loadConfig(file)).toThrow("Config file not found");
+      await fs.promises.writeFile(file, "{");
+      expect(() => loadConfig(file)).toThrow("Invalid config file");
+      await fs.promises.writeFile(file, JSON.stringify({ region: "eu" }));
+      expect(loadConfig(file)).toEqual({ region: "eu" });
+    } finally {
+      await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,169 @@
+import * as fs from "fs";
+import * as path from "path";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { resultText, startHarness, type Harness } from "./harness.js";
+
+let h: Harness;
+let before: number;
+
+beforeAll(async () => {
+  h = await startHarness();
+});
+
+afterAll(async () => {
+  await h?.close();
+});
+
+beforeEach(() => {
+  before = h.mock.requests.length;
+});
+
+// Routes requested since the current test started.
+const routes = () => h.routes().slice(before);
+
+const compress = (args: Record<string, unknown> = {}) =>
+  h.call("compress_pdf", {
+    file_path: path.join(h.dir, "doc.pdf"),
+    output_path: path.join(h.dir, "compressed.pdf"),
+    ...args,
+  });
+
+describe("authentication", () => {
+  it("retries a 401 once with a fresh token", async () => {
+    h.mock.failNext("start", 401, { name: "Unauthorized", message: "Expired" });
+
+    const result = await compress();
+
+    expect(result.isError, resultText(result)).toBeFalsy();
+    expect(routes().filter((route) => route === "GET /v1/start")).toHaveLength(
+      2,
+    );
+  });
+
+  it("asks /auth for a new token in remote mode", async () => {
+    h.mock.failNext("upload", 401, {
+      name: "Unauthorized",
+      message: "Expired",
+    });
+
+    const result = await compress({ auth_mode: "remote" });
+
+    expect(result.isError, resultText(result)).toBeFalsy();
+    expect(routes().slice(0, 4)).toEqual([
+      "GET /v1/start",
+      "POST /v1/upload",
+      "POST /v1/auth",
+      "POST /v1/upload",
+    ]);
+    expect(h.mock.tasks.size).toBe(0);
+  });
+
+  it("gives up after a second 401", async () => {
+    h.mock.failNext("start", 401, { name: "Unauthorized", message: "Bad key" });
+    h.mock.failNext("start", 401, { name: "Unauthorized", message: "Bad key" });
+
+    const result = await compress();
+
+    expect(result.isError).toBe(true);
+    expect(resultText(result)).toBe(
+      "Error: Start task failed (401): Bad key. Check the project's public and secret keys.",
+    );
+  });
+});
+
+describe("retries", () => {
+  it("backs off and retries a 429", async () => {
+    h.mock.failNext("process", 429);
+
+    const result = await compress();
+
+    expect(result.isError, resultText(result)).toBeFalsy();
+    expect(routes()).toEqual([
+      "GET /v1/start",
+      "POST /v1/upload",
+      "POST /v1/process",
+      "POST /v1/process",
+      "GET /v1/download",
+      "DELETE /v1/task",
+    ]);
+  });
+
+  it("retries 5xx responses three times, then deletes the task", async () => {
+    for (let i = 0; i < 4; i++) {
+      h.mock.failNext("process", 503);
+    }
+
+    const result = await compress();
+
+    expect(result.isError).toBe(true);
+    expect(resultText(result)).toBe(
+      "Error: Process failed (503): Mock 503. iLovePDF kept failing after retries; try again later.",
+    );
+    expect(
+      routes().filter((route) => route === "POST /v1/process"),
+    ).toHaveLength(4);
+    expect(routes().at(-1)).toBe("DELETE /v1/task");
+    expect(h.mock.tasks.size).toBe(0);
+  }, 20_000);
+});
+
+describe("task cleanup", () => {
+  it("deletes the task when processing is rejected", async () => {
+    h.mock.failNext("process", 400, {
+      error: {
+        type: "ProcessParamsError",
+        message: "Invalid process data",
+        param: { compression_level: "Unknown level" },
+      },
+    });
+
+    const result = await compress();
+
+    expect(resultText(result)).toBe(
+      "Error: Process failed (400): Invalid process data [compression_level: Unknown level]. Check the tool arguments.",
+    );
+    expect(routes().at(-1)).toBe("DELETE /v1/task");
+    expect(h.mock.tasks.size).toBe(0);
+  });
+
+  it("stops the other uploads and deletes the task when one fails", async () => {
+    h.mock.failNext("upload", 413, { error: { message: "File too big" } });
+
+    const result = await h.call("merge_pdf", {
+      file_paths: [
+        path.join(h.dir, "doc.pdf"),
+        path.join(h.dir, "other.pdf"),
+        path.join(h.dir, "doc.pdf"),
+      ],
+      output_path: path.join(h.dir, "merged.pdf"),
+    });
+
+    expect(resultText(result)).toMatch(/^Error: Upload failed \(413\)/);
+    expect(routes()).not.toContain("POST /v1/process");
+    expect(routes().at(-1)).toBe("DELETE /v1/task");
+    expect(h.mock.tasks.size).toBe(0);
+    expect(fs.existsSync(path.join(h.dir, "merged.pdf"))).toBe(false);
+  });
+
+  it("keeps the task when asked to", async () => {
+    h.mock.failNext("download", 404, { error: { message: "Gone" } });
+
+    const result = await compress({ keep_remote_task: true });
+
+    expect(result.isError).toBe(true);
+    expect(routes()).not.toContain("DELETE /v1/task");
+    expect(h.mock.tasks.size).toBe(1);
+    h.mock.tasks.clear();
+  });
+
+  it("reports exhausted credits without uploading", async () => {
+    h.mock.failNext("start", 402, { error: { message: "Not enough credits" } });
+
+    const result = await compress();
+
+    expect(resultText(result)).toBe(
+      "Error: Start task failed (402): Not enough credits. The project has no credits left for this task.",
+    );
+    expect(routes()).toEqual(["GET /v1/start"]);
+  });
+});
@@ -0,0 +1,138 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import type {
+  CallToolResult,
+  Progress,
+} from "@modelcontextprotocol/sdk/types.js";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { fileURLToPath } from "url";
+import {
+  startMockServer,
+  type MockServer,
+  type MockServerOptions,
+} from "../src/mock-server.js";
+
+// The suite drives the compiled server, so `npm test` builds first.
+const SERVER_PATH = fileURLToPath(
+  new URL("../build/index.js", import.meta.url),
+);
+
+export const PDF = Buffer.from("%PDF-1.4\n%%EOF\n");
+
+export const JPG = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0xff, 0xd9]);
+
+export interface Harness {
+  mock: MockServer;
+  client: Client;
+  // A scratch directory holding doc.pdf, other.pdf, photo.jpg and
+  // report.docx; tests write their outputs here too.
+  dir: string;
+  // Every tool name passed to call(), so suites can check their coverage.
+  called: Set<string>;
+  call(
+    name: string,
+    args?: Record<string, unknown>,
+    onprogress?: (progress: Progress) => void,
+  ): Promise<CallToolResult>;
+  // The paths of every request the mock has seen, e.g. "POST /v1/upload".
+  routes(): string[];
+  close(): Promise<void>;
+}
+
+export interface HarnessOptions {
+  mock?: MockServerOptions;
+  config?: Record<string, unknown>;
+  env?: Record<string, string>;
+}
+
+/**
+ * Starts the mock API and the MCP server on stdio, pointed at each other,
+ * with a config file of its own so the developer's config is never read.
+ */
+export async function startHarness(
+  options: HarnessOptions = {},
+): Promise<Harness> {
+  const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "ilovepdf-"));
+  await fs.promises.writeFile(path.join(dir, "doc.pdf"), PDF);
+  await fs.promises.writeFile(path.join(dir, "other.pdf"), PDF);
+  await fs.promises.writeFile(path.join(dir, "photo.jpg"), JPG);
+  await fs.promises.writeFile(path.join(dir, "report.docx"), "docx");
+  const configPath = path.join(dir, "config.json");
+  await fs.promises.writeFile(configPath, JSON.stringify(options.config ?? {}));
+
+  const mock = await startMockServer(options.mock);
+  const env: Record<string, string> = {};
+  for (const [key, value] of Object.entries(process.env)) {
+    if (value !== undefined && !key.startsWith("ILOVEPDF_")) {
+      env[key] = value;
+    }
+  }
+  const transport = new StdioClientTransport({
+    command: process.execPath,
+    args: [SERVER_PATH],
+    env: {
+      ...env,
+      ILOVEPDF_CONFIG: configPath,
+      ILOVEPDF_API_BASE: mock.apiBase,
+      ILOVEPDF_SERVER_SCHEME: "http",
+      ILOVEPDF_PUBLIC_KEY: "project_public_test",
+      ILOVEPDF_SECRET_KEY: "secret_test",
+      ...options.env,
+    },
+    stderr: "ignore",
+  });
+  const client = new Client({ name: "test", version: "1.0.0" });
+  await client.connect(transport);
+
+  const called = new Set<string>();
+  return {
+    mock,
+    client,
+    dir,
+    called,
+    async call(name, args = {}, onprogress) {
+      called.add(name);
+      return (await client.callTool({ name, arguments: args }, undefined, {
+        onprogress,
+        timeout: 30_000,
+      })) as CallToolResult;
+    },
+    routes() {
+      return mock.requests.map((request) => {
+        const [, version, route] = request.path.split("/");
+        return `${request.method} /${version}/${route}`;
+      });
+    },
+    async close() {
+      await client.close();
+      await mock.close();
+      await fs.promises.rm(dir, { recursive: true, force: true });
+    },
+  };
+}
+
+/**
+ * Polls `condition` until it holds, failing after five seconds.
+ */
+export async function waitFor(
+  condition: () => boolean | Promise<boolean>,
+): Promise<void> {
+  const deadline = Date.now() + 5_000;
+  while (!(await condition())) {
+    if (Date.now() > deadline) {
+      throw new Error("Timed out waiting for condition");
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+/**
+ * The text blocks of a tool result, joined.
+ */
+export function resultText(result: CallToolResult): string {
+  return result.content
+    .map((block) => (block.type === "text" ? block.text : ""))
+    .join("\n");
+}
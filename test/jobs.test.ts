@@ -0,0 +1,59 @@
+import * as path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { resultText, startHarness, waitFor, type Harness } from "./harness.js";
+
+let h: Harness;
+
+beforeAll(async () => {
+  h = await startHarness();
+});
+
+afterAll(async () => {
+  await h?.close();
+});
+
+describe("cancel_job", () => {
+  it("stops a job waiting to retry and deletes its task", async () => {
+    // Retry-After holds the retry back for a second, long enough to cancel.
+    h.mock.failNext("process", 503, undefined, { "Retry-After": "1" });
+    const started = await h.call("compress_pdf", {
+      file_path: path.join(h.dir, "doc.pdf"),
+      output_path: path.join(h.dir, "cancelled.pdf"),
+      async: true,
+    });
+    const job_id = started.structuredContent?.job_id as string;
+    await waitFor(() => h.routes().includes("POST /v1/process"));
+
+    const cancelled = await h.call("cancel_job", { job_id });
+    expect(cancelled.structuredContent?.status).toBe("cancelled");
+    await waitFor(() => h.mock.tasks.size === 0);
+
+    // The server survives the cancellation and never retries.
+    const status = await h.call("get_job_status", { job_id });
+    expect(status.structuredContent).toMatchObject({ status: "cancelled" });
+    await new Promise((resolve) => setTimeout(resolve, 1_200));
+    expect(
+      h.routes().filter((route) => route === "POST /v1/process"),
+    ).toHaveLength(1);
+    const result = await h.call("get_job_result", { job_id });
+    expect(resultText(result)).toBe(`Error: Job ${job_id} was cancelled`);
+  });
+
+  it("leaves finished jobs alone", async () => {
+    const started = await h.call("compress_pdf", {
+      file_path: path.join(h.dir, "doc.pdf"),
+      output_path: path.join(h.dir, "done.pdf"),
+      async: true,
+    });
+    const job_id = started.structuredContent?.job_id as string;
+    await waitFor(async () => {
+      const status = await h.call("get_job_status", { job_id });
+      return status.structuredContent?.status !== "running";
+    });
+
+    const result = await h.call("cancel_job", { job_id });
+
+    expect(result.structuredContent?.status).toBe("succeeded");
+    expect(resultText(result)).toMatch(/^Job already finished \(succeeded\)/);
+  });
+});
@@ -0,0 +1,762 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { Progress } from "@modelcontextprotocol/sdk/types.js";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { resultText, startHarness, waitFor, type Harness } from "./harness.js";
+
+let h: Harness;
+
+beforeAll(async () => {
+  h = await startHarness({
+    config: {
+      profiles: {
+        work: {
+          public_key: "project_public_work_1234567890",
+          secret_key: "secret_work",
+          region: "eu",
+        },
+      },
+    },
+  });
+});
+
+afterAll(async () => {
+  await h?.close();
+});
+
+const file = (name: string) => path.join(h.dir, name);
+
+// The /process request body of the first task started after request `before`.
+const processBody = (before: number) =>
+  h.mock.requests
+    .slice(before)
+    .find((request) => request.path === "/v1/process")?.body as Record<
+    string,
+    unknown
+  >;
+
+// Every tool that runs one task, with its arguments and the files it should
+// write under out/.
+const PROCESSING_CASES: Array<{
+  tool: string;
+  args: (dir: string) => Record<string, unknown>;
+  outputs: string[];
+}> = [
+  {
+    tool: "compress_pdf",
+    args: (dir) => ({
+      file_path: path.join(dir, "doc.pdf"),
+      output_path: path.join(dir, "out", "compress_pdf.pdf"),
+      compression_level: "extreme",
+    }),
+    outputs: ["compress_pdf.pdf"],
+  },
+  {
+    tool: "merge_pdf",
+    args: (dir) => ({
+      file_paths: [path.join(dir, "doc.pdf"), path.join(dir, "other.pdf")],
+      output_path: path.join(dir, "out", "merge_pdf.pdf"),
+    }),
+    outputs: ["merge_pdf.pdf"],
+  },
+  {
+    tool: "split_pdf",
+    args: (dir) => ({
+      file_path: path.join(dir, "doc.pdf"),
+      output_dir: path.join(dir, "out", "split_pdf"),
+      mode: "ranges",
+      ranges: "1,2",
+    }),
+    outputs: ["split_pdf/doc-1.pdf", "split_pdf/doc-2.pdf"],
+  },
+  {
+    tool: "pdf_to_jpg",
+    args: (dir) => ({
+      file_path: path.join(dir, "doc.pdf"),
+      output_dir: path.join(dir, "out", "pdf_to_jpg"),
+    }),
+    outputs: ["pdf_to_jpg/doc-1.jpg", "pdf_to_jpg/doc-2.jpg"],
+  },
+  {
+    tool: "jpg_to_pdf",
+    args: (dir) => ({
+      file_paths: [path.join(dir, "photo.jpg")],
+      output_path: path.join(dir, "out", "jpg_to_pdf.pdf"),
+    }),
+    outputs: ["jpg_to_pdf.pdf"],
+  },
+  {
+    tool: "unlock_pdf",
+    args: (dir) => ({
+      file_path: path.join(dir, "doc.pdf"),
+      output_path: path.join(dir, "out", "unlock_pdf.pdf"),
+      password: "secret",
+    }),
+    outputs: ["unlock_pdf.pdf"],
+  },
+  {
+    tool: "protect_pdf",
+    args: (dir) => ({
+      file_path: path.join(dir, "doc.pdf"),
+      output_path: path.join(dir, "out", "protect_pdf.pdf"),
+      password: "secret",
+    }),
+    outputs: ["protect_pdf.pdf"],
+  },
+  {
+    tool: "rotate_pdf",
+    args: (dir) => ({
+      file_path: path.join(dir, "doc.pdf"),
+      output_path: path.join(dir, "out", "rotate_pdf.pdf"),
+      rotation: 90,
+    }),
+    outputs: ["rotate_pdf.pdf"],
+  },
+  {
+    tool: "watermark_pdf",
+    args: (dir) => ({
+      file_path: path.join(dir, "doc.pdf"),
+      output_path: path.join(dir, "out", "watermark_pdf.pdf"),
+      text: "DRAFT",
+    }),
+    outputs: ["watermark_pdf.pdf"],
+  },
+  {
+    tool: "page_numbers",
+    args: (dir) => ({
+      file_path: path.join(dir, "doc.pdf"),
+      output_path: path.join(dir, "out", "page_numbers.pdf"),
+      text: "Page {n} of {p}",
+    }),
+    outputs: ["page_numbers.pdf"],
+  },
+  {
+    tool: "pdf_to_word",
+    args: (dir) => ({
+      file_path: path.join(dir, "doc.pdf"),
+      output_path: path.join(dir, "out", "pdf_to_word.txt"),
+    }),
+    outputs: ["pdf_to_word.txt"],
+  },
+  {
+    tool: "office_to_pdf",
+    args: (dir) => ({
+      file_path: path.join(dir, "report.docx"),
+      output_path: path.join(dir, "out", "office_to_pdf.pdf"),
+    }),
+    outputs: ["office_to_pdf.pdf"],
+  },
+  {
+    tool: "pdf_ocr",
+    args: (dir) => ({
+      file_path: path.join(dir, "doc.pdf"),
+      output_path: path.join(dir, "out", "pdf_ocr.pdf"),
+      languages: ["eng"],
+    }),
+    outputs: ["pdf_ocr.pdf"],
+  },
+  {
+    tool: "repair_pdf",
+    args: (dir) => ({
+      file_path: path.join(dir, "doc.pdf"),
+      output_path: path.join(dir, "out", "repair_pdf.pdf"),
+    }),
+    outputs: ["repair_pdf.pdf"],
+  },
+  {
+    tool: "pdf_to_pdfa",
+    args: (dir) => ({
+      file_path: path.join(dir, "doc.pdf"),
+      output_path: path.join(dir, "out", "pdf_to_pdfa.pdf"),
+    }),
+    outputs: ["pdf_to_pdfa.pdf"],
+  },
+  {
+    tool: "edit_pdf",
+    args: (dir) => ({
+      file_path: path.join(dir, "doc.pdf"),
+      output_path: path.join(dir, "out", "edit_pdf.pdf"),
+      text_elements: [{ text: "Approved", x: 50, y: 50 }],
+      image_elements: [{ file_path: path.join(dir, "photo.jpg"), x: 0, y: 0 }],
+    }),
+    outputs: ["edit_pdf.pdf"],
+  },
+  {
+    tool: "compress_image",
+    args: (dir) => ({
+      file_path: path.join(dir, "photo.jpg"),
+      output_path: path.join(dir, "out", "compress_image.jpg"),
+    }),
+    outputs: ["compress_image.jpg"],
+  },
+  {
+    tool: "resize_image",
+    args: (dir) => ({
+      file_path: path.join(dir, "photo.jpg"),
+      output_path: path.join(dir, "out", "resize_image.jpg"),
+      width: 100,
+    }),
+    outputs: ["resize_image.jpg"],
+  },
+  {
+    tool: "convert_image",
+    args: (dir) => ({
+      file_path: path.join(dir, "photo.jpg"),
+      output_path: path.join(dir, "out", "convert_image.png"),
+      to_format: "png",
+    }),
+    outputs: ["convert_image.png"],
+  },
+  {
+    tool: "remove_background",
+    args: (dir) => ({
+      file_path: path.join(dir, "photo.jpg"),
+      output_path: path.join(dir, "out", "remove_background.png"),
+    }),
+    outputs: ["remove_background.png"],
+  },
+  {
+    tool: "upscale_image",
+    args: (dir) => ({
+      file_path: path.join(dir, "photo.jpg"),
+      output_path: path.join(dir, "out", "upscale_image.jpg"),
+      multiplier: 2,
+    }),
+    outputs: ["upscale_image.jpg"],
+  },
+  {
+    tool: "crop_image",
+    args: (dir) => ({
+      file_path: path.join(dir, "photo.jpg"),
+      output_path: path.join(dir, "out", "crop_image.jpg"),
+      width: 10,
+      height: 10,
+    }),
+    outputs: ["crop_image.jpg"],
+  },
+  {
+    tool: "watermark_image",
+    args: (dir) => ({
+      file_path: path.join(dir, "photo.jpg"),
+      output_path: path.join(dir, "out", "watermark_image.jpg"),
+      layers: [{ type: "text", text: "DRAFT", font_style: "Bold" }],
+    }),
+    outputs: ["watermark_image.jpg"],
+  },
+  {
+    tool: "repair_image",
+    args: (dir) => ({
+      file_path: path.join(dir, "photo.jpg"),
+      output_path: path.join(dir, "out", "repair_image.jpg"),
+    }),
+    outputs: ["repair_image.jpg"],
+  },
+  {
+    tool: "rotate_image",
+    args: (dir) => ({
+      file_path: path.join(dir, "photo.jpg"),
+      output_path: path.join(dir, "out", "rotate_image.jpg"),
+      rotation: 90,
+    }),
+    outputs: ["rotate_image.jpg"],
+  },
+];
+
+describe("processing tools", () => {
+  it.each(PROCESSING_CASES)(
+    "$tool writes its result and deletes the task",
+    async ({ tool, args, outputs }) => {
+      await fs.promises.mkdir(file("out"), { recursive: true });
+      const result = await h.call(tool, args(h.dir));
+
+      expect(result.isError, resultText(result)).toBeFalsy();
+      const expected = outputs.map((name) => path.join(h.dir, "out", name));
+      expect(result.structuredContent?.output_paths).toEqual(expected);
+      for (const output of expected) {
+        expect(fs.existsSync(output), output).toBe(true);
+      }
+      expect(h.mock.tasks.size).toBe(0);
+    },
+  );
+
+  it("validate_pdfa reports conformance without downloading", async () => {
+    const before = h.mock.requests.length;
+    const result = await h.call("validate_pdfa", {
+      file_path: file("doc.pdf"),
+    });
+
+    expect(result.structuredContent).toMatchObject({ conformant: true });
+    expect(h.routes().slice(before)).not.toContain("GET /v1/download");
+  });
+
+  it("html_to_pdf sends the page as a cloud file", async () => {
+    const result = await h.call("html_to_pdf", {
+      url: `${h.mock.url}/page.html`,
+      output_path: file("page.pdf"),
+    });
+
+    expect(result.isError, resultText(result)).toBeFalsy();
+    expect(fs.existsSync(file("page.pdf"))).toBe(true);
+  });
+
+  it("reports progress for every stage", async () => {
+    const updates: Progress[] = [];
+    await h.call(
+      "compress_pdf",
+      { file_path: file("doc.pdf"), output_path: file("progress.pdf") },
+      (update) => updates.push(update),
+    );
+
+    // The final "Done" update can race the result on the client side, so
+    // only the stages before it are checked.
+    expect(updates.slice(0, 6)).toEqual([
+      { progress: 0, total: 6, message: "Authenticating" },
+      { progress: 1, total: 6, message: "Starting compress task" },
+      { progress: 2, total: 6, message: "Uploading 1 file(s)" },
+      { progress: 3, total: 6, message: "Processing with compress" },
+      { progress: 4, total: 6, message: "Downloading result" },
+      { progress: 5, total: 6, message: "Deleting remote task" },
+    ]);
+  });
+
+  it("watermark_pdf stamps the image given as image_path", async () => {
+    const before = h.mock.requests.length;
+    const result = await h.call("watermark_pdf", {
+      file_path: file("doc.pdf"),
+      output_path: file("stamped.pdf"),
+      image_path: file("photo.jpg"),
+      transparency: 50,
+    });
+
+    expect(result.isError, resultText(result)).toBeFalsy();
+    expect(
+      h
+        .routes()
+        .slice(before)
+        .filter((route) => route === "POST /v1/upload"),
+    ).toHaveLength(2);
+    const body = processBody(before);
+    expect(body).toMatchObject({ mode: "image", transparency: 50 });
+    expect(body.image).toEqual(expect.any(String));
+    expect(body.text).toBeUndefined();
+  });
+
+  it.each([
+    {
+      args: { skip_first_page: true },
+      sent: { first_page: 2, facing_pages: false },
+    },
+    {
+      args: { facing_pages: true, horizontal_position: "right" },
+      sent: { facing_pages: true, horizontal_position: "right" },
+    },
+  ])("page_numbers sends $sent for $args", async ({ args, sent }) => {
+    const before = h.mock.requests.length;
+    const result = await h.call("page_numbers", {
+      file_path: file("doc.pdf"),
+      output_path: file("numbered.pdf"),
+      ...args,
+    });
+
+    expect(result.isError, resultText(result)).toBeFalsy();
+    expect(processBody(before)).toMatchObject(sent);
+  });
+
+  it("page_numbers refuses centred numbers on facing pages", async () => {
+    const result = await h.call("page_numbers", {
+      file_path: file("doc.pdf"),
+      output_path: file("numbered.pdf"),
+      facing_pages: true,
+    });
+
+    expect(result.isError).toBe(true);
+    expect(resultText(result)).toContain(
+      "horizontal_position must be left or right",
+    );
+  });
+
+  it("rejects arguments before starting a task", async () => {
+    const before = h.mock.requests.length;
+    const result = await h.call("page_numbers", {
+      file_path: file("doc.pdf"),
+      output_path: file("numbered.pdf"),
+      text: "Page",
+    });
+
+    expect(result.isError).toBe(true);
+    expect(h.mock.requests.length).toBe(before);
+  });
+
+  it.each([
+    { font_family: "Papyrus" },
+    { font_size: 0 },
+    { font_size: 12.5 },
+    { transparency: 150 },
+  ])("watermark_pdf rejects %o before starting a task", async (style) => {
+    const before = h.mock.requests.length;
+    const result = await h.call("watermark_pdf", {
+      file_path: file("doc.pdf"),
+      output_path: file("stamped.pdf"),
+      text: "DRAFT",
+      ...style,
+    });
+
+    expect(result.isError).toBe(true);
+    expect(resultText(result)).toContain(Object.keys(style)[0]);
+    expect(h.mock.requests.length).toBe(before);
+  });
+});
+
+describe("account tools", () => {
+  it("ilovepdf_auth signs a token", async () => {
+    const result = await h.call("ilovepdf_auth");
+
+    expect(result.structuredContent).toEqual({
+      authenticated: true,
+      auth_mode: "local",
+    });
+  });
+
+  it("list_profiles masks keys", async () => {
+    const result = await h.call("list_profiles");
+
+    expect(result.structuredContent).toEqual({
+      profiles: [
+        {
+          name: "work",
+          default: false,
+          public_key: "...567890",
+          has_secret_key: true,
+          region: "eu",
+        },
+      ],
+    });
+  });
+});
+
+describe("signature tools", () => {
+  it("create, check, remind, void and download a request", async () => {
+    const created = await h.call("create_signature_request", {
+      file_paths: [file("doc.pdf")],
+      signers: [
+        {
+          name: "Jane Doe",
+          email: "jane@example.com",
+          fields: [{ type: "signature", x: 100, y: 650 }],
+        },
+      ],
+    });
+    expect(created.isError, resultText(created)).toBeFalsy();
+    const signature_id = created.structuredContent?.signature_id as string;
+
+    const status = await h.call("get_signature_status", { signature_id });
+    expect(status.structuredContent).toMatchObject({
+      status: "sent",
+      signers: [{ email: "jane@example.com", status: "waiting" }],
+    });
+
+    await h.call("send_signature_reminders", { signature_id });
+    expect(h.mock.signatures.get(signature_id)?.reminders).toBe(1);
+
+    const voided = await h.call("void_signature_request", { signature_id });
+    expect(voided.isError).toBeFalsy();
+    expect(h.mock.signatures.get(signature_id)?.status).toBe("void");
+
+    const downloaded = await h.call("download_signature", {
+      signature_id,
+      document: "audit",
+      output_path: file("audit.pdf"),
+    });
+    expect(downloaded.isError).toBeFalsy();
+    expect(fs.existsSync(file("audit.pdf"))).toBe(true);
+  });
+
+  it("download_signature requires output_path", async () => {
+    const result = await h.call("download_signature", { signature_id: "x" });
+
+    expect(resultText(result)).toBe(
+      "Error: Invalid arguments: output_path: Required",
+    );
+  });
+});
+
+describe("regions", () => {
+  it.each([
+    { args: { region: "eu" }, region: "eu" },
+    { args: { profile: "work" }, region: "eu" },
+    { args: { profile: "work", region: "us" }, region: "us" },
+  ])("starts tasks in $region for $args", async ({ args, region }) => {
+    const before = h.mock.requests.length;
+    const result = await h.call("compress_pdf", {
+      file_path: file("doc.pdf"),
+      output_path: file(`region-${region}.pdf`),
+      ...args,
+    });
+
+    expect(result.isError, resultText(result)).toBeFalsy();
+    expect(result.structuredContent?.region).toBe(region);
+    expect(h.mock.requests[before].path).toBe(`/v1/start/compress/${region}`);
+  });
+
+  it("rejects an unknown region before starting a task", async () => {
+    const before = h.mock.requests.length;
+    const result = await h.call("compress_pdf", {
+      file_path: file("doc.pdf"),
+      output_path: file("region-mars.pdf"),
+      region: "mars",
+    });
+
+    expect(result.isError).toBe(true);
+    expect(resultText(result)).toContain(
+      'Unsupported region "mars" (supported: us, eu)',
+    );
+    expect(h.mock.requests.length).toBe(before);
+  });
+});
+
+describe("output files", () => {
+  it("keeps a % in the downloaded file name", async () => {
+    await fs.promises.copyFile(file("doc.pdf"), file("50% off.pdf"));
+    const result = await h.call("compress_pdf", {
+      file_path: file("50% off.pdf"),
+      output_dir: file("sale"),
+    });
+
+    expect(result.isError, resultText(result)).toBeFalsy();
+    expect(result.structuredContent?.output_paths).toEqual([
+      path.join(h.dir, "sale", "50% off.pdf"),
+    ]);
+  });
+
+  it.each([
+    {
+      tool: "pdf_to_word",
+      args: { file_path: "doc.pdf", output_path: "notes.docx" },
+      expected: ".txt",
+    },
+    {
+      tool: "convert_image",
+      args: {
+        file_path: "photo.jpg",
+        output_path: "photo.jpg",
+        to_format: "png",
+      },
+      expected: ".png",
+    },
+  ])(
+    "$tool refuses a mismatched output_path before starting a task",
+    async ({ tool, args, expected }) => {
+      const before = h.mock.requests.length;
+      const result = await h.call(tool, {
+        file_path: file(args.file_path),
+        output_path: file(args.output_path),
+        to_format: args.to_format,
+      });
+
+      expect(result.isError).toBe(true);
+      expect(resultText(result)).toContain(`use a ${expected} output_path`);
+      expect(h.mock.requests.length).toBe(before);
+    },
+  );
+
+  it("refuses a ZIP archive for a single-file output_path", async () => {
+    const before = h.mock.requests.length;
+    const result = await h.call("pdf_to_jpg", {
+      file_path: file("doc.pdf"),
+      output_path: file("pages.jpg"),
+    });
+
+    expect(result.isError).toBe(true);
+    expect(resultText(result)).toContain("The result is a ZIP archive");
+    expect(fs.existsSync(file("pages.jpg"))).toBe(false);
+    expect(h.routes().slice(before)).toContain("DELETE /v1/task");
+  });
+
+  it("keeps the archive next to the extracted files", async () => {
+    const result = await h.call("pdf_to_jpg", {
+      file_path: file("doc.pdf"),
+      output_dir: file("pages"),
+      keep_archive: true,
+    });
+
+    expect(result.isError, resultText(result)).toBeFalsy();
+    expect(result.structuredContent?.output_paths).toEqual([
+      file("pages/doc-1.jpg"),
+      file("pages/doc-2.jpg"),
+      file("pages/output.zip"),
+    ]);
+    expect(fs.readdirSync(file("pages")).sort()).toEqual([
+      "doc-1.jpg",
+      "doc-2.jpg",
+      "output.zip",
+    ]);
+  });
+});
+
+describe("pipelines and batches", () => {
+  it("run_pipeline chains steps through temporary files", async () => {
+    const result = await h.call("run_pipeline", {
+      steps: [
+        { tool: "compress_pdf", arguments: { file_path: file("doc.pdf") } },
+        { tool: "rotate_pdf", arguments: { rotation: 90 } },
+      ],
+      output_path: file("pipeline.pdf"),
+    });
+
+    expect(result.isError, resultText(result)).toBeFalsy();
+    expect(result.structuredContent?.output_paths).toEqual([
+      file("pipeline.pdf"),
+    ]);
+  });
+
+  it("batch groups files into one task", async () => {
+    await fs.promises.mkdir(file("scans"));
+    for (const name of ["a.pdf", "b.pdf", "c.PDF", "notes.txt"]) {
+      await fs.promises.copyFile(file("doc.pdf"), file(`scans/${name}`));
+    }
+    const before = h.mock.requests.length;
+    const result = await h.call("batch", {
+      tool: "compress_pdf",
+      file_glob: path.join(h.dir, "scans", "*.pdf"),
+      output_dir: file("compressed"),
+    });
+
+    expect(result.structuredContent).toMatchObject({
+      total: 3,
+      succeeded: 3,
+      failed: 0,
+    });
+    expect(result.structuredContent?.tasks).toHaveLength(1);
+    expect(h.routes().slice(before)).toEqual([
+      "GET /v1/start",
+      "POST /v1/upload",
+      "POST /v1/upload",
+      "POST /v1/upload",
+      "POST /v1/process",
+      "GET /v1/download",
+      "DELETE /v1/task",
+    ]);
+    expect(fs.readdirSync(file("compressed")).sort()).toEqual([
+      "a.pdf",
+      "b.pdf",
+      "c.pdf",
+    ]);
+  });
+
+  it("batch names results with output_template", async () => {
+    await fs.promises.mkdir(file("shots"));
+    for (const name of ["a.jpg", "b.jpg"]) {
+      await fs.promises.copyFile(file("photo.jpg"), file(`shots/${name}`));
+    }
+    const converted = await h.call("batch", {
+      tool: "convert_image",
+      arguments: { to_format: "png" },
+      input_dir: file("shots"),
+      output_dir: file("web"),
+      output_template: "{name}_{tool}.{ext}",
+    });
+    expect(converted.isError, resultText(converted)).toBeFalsy();
+    expect(fs.readdirSync(file("web")).sort()).toEqual([
+      "a_convert_image.png",
+      "b_convert_image.png",
+    ]);
+
+    // Without output_dir, results go next to their inputs.
+    const rotated = await h.call("batch", {
+      tool: "rotate_image",
+      arguments: { rotation: 90 },
+      input_dir: file("shots"),
+    });
+    expect(rotated.isError, resultText(rotated)).toBeFalsy();
+    expect(fs.readdirSync(file("shots")).sort()).toEqual([
+      "a-rotate_image.jpg",
+      "a.jpg",
+      "b-rotate_image.jpg",
+      "b.jpg",
+    ]);
+  });
+
+  it("batch names results in input order and keeps existing files", async () => {
+    for (const name of ["a/x.pdf", "b/x.pdf", "b/y.pdf"]) {
+      await fs.promises.mkdir(path.dirname(file(`dup/${name}`)), {
+        recursive: true,
+      });
+      await fs.promises.copyFile(file("doc.pdf"), file(`dup/${name}`));
+    }
+    await fs.promises.mkdir(file("dedup"));
+    await fs.promises.writeFile(file("dedup/y.PDF"), "keep me");
+    await fs.promises.writeFile(file("dedup/y_compress_pdf.pdf"), "keep me");
+
+    for (const template of ["{name}.{ext}", "{name}_{tool}.pdf"]) {
+      const result = await h.call("batch", {
+        tool: "compress_pdf",
+        file_glob: path.join(h.dir, "dup", "**", "*.pdf"),
+        output_dir: file("dedup"),
+        output_template: template,
+        group_size: 1,
+        concurrency: 3,
+      });
+
+      expect(result.isError, resultText(result)).toBeFalsy();
+      const outputs = (
+        result.structuredContent?.results as Array<{ output_paths: string[] }>
+      ).map((entry) => path.basename(entry.output_paths[0]));
+      expect(outputs).toEqual(
+        template === "{name}.{ext}"
+          ? ["x.pdf", "x-2.pdf", "y-2.pdf"]
+          : [
+              "x_compress_pdf.pdf",
+              "x-2_compress_pdf.pdf",
+              "y-2_compress_pdf.pdf",
+            ],
+      );
+    }
+    for (const kept of ["y.PDF", "y_compress_pdf.pdf"]) {
+      expect(fs.readFileSync(file(`dedup/${kept}`), "utf8")).toBe("keep me");
+    }
+  });
+});
+
+describe("jobs", () => {
+  it("runs a tool in the background", async () => {
+    const started = await h.call("compress_pdf", {
+      file_path: file("doc.pdf"),
+      output_path: file("job.pdf"),
+      async: true,
+    });
+    const job_id = started.structuredContent?.job_id as string;
+    expect(job_id).toBeTruthy();
+
+    await waitFor(
+      async () =>
+        (await h.call("get_job_status", { job_id })).structuredContent
+          ?.status !== "running",
+    );
+    const status = await h.call("get_job_status", { job_id });
+    expect(status.structuredContent).toMatchObject({
+      status: "succeeded",
+      percent: 100,
+      output_paths: [file("job.pdf")],
+    });
+
+    const result = await h.call("get_job_result", { job_id });
+    expect(result.structuredContent?.output_paths).toEqual([file("job.pdf")]);
+
+    const cancelled = await h.call("cancel_job", { job_id });
+    expect(cancelled.structuredContent?.status).toBe("succeeded");
+  });
+
+  it("reports unknown jobs", async () => {
+    const result = await h.call("get_job_status", { job_id: "missing" });
+
+    expect(result.isError).toBe(true);
+  });
+});
+
+describe("tool list", () => {
+  it("every listed tool is exercised above", async () => {
+    const { tools } = await h.client.listTools();
+
+    expect([...h.called].sort()).toEqual(tools.map((tool) => tool.name).sort());
+  });
+});
@@ -0,0 +1,43 @@
+import * as fs from "fs";
+import * as path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { resultText, startHarness, type Harness } from "./harness.js";
+
+let h: Harness;
+
+beforeAll(async () => {
+  // doc.pdf uploads slowly, so the files after it finish first.
+  h = await startHarness({
+    mock: { uploadDelayMs: (name) => (name === "doc.pdf" ? 200 : 0) },
+  });
+});
+
+afterAll(async () => {
+  await h?.close();
+});
+
+describe("parallel uploads", () => {
+  it("keeps the merge order when uploads finish out of order", async () => {
+    await fs.promises.copyFile(
+      path.join(h.dir, "doc.pdf"),
+      path.join(h.dir, "third.pdf"),
+    );
+    const names = ["doc.pdf", "other.pdf", "third.pdf"];
+    const result = await h.call("merge_pdf", {
+      file_paths: names.map((name) => path.join(h.dir, name)),
+      output_path: path.join(h.dir, "merged.pdf"),
+      keep_remote_task: true,
+    });
+
+    expect(result.isError, resultText(result)).toBeFalsy();
+    const [task] = h.mock.tasks.values();
+    expect(task.uploads.map((upload) => upload.filename)).toEqual([
+      "other.pdf",
+      "third.pdf",
+      "doc.pdf",
+    ]);
+    expect(task.processed?.files).toEqual(
+      names.map((filename) => expect.objectContaining({ filename })),
+    );
+  });
+});
@@ -0,0 +1,90 @@
+import * as fs from "fs";
+import * as path from "path";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { resultText, startHarness, type Harness } from "./harness.js";
+
+let h: Harness;
+let before: number;
+
+beforeAll(async () => {
+  h = await startHarness();
+});
+
+afterAll(async () => {
+  await h?.close();
+});
+
+beforeEach(() => {
+  before = h.mock.requests.length;
+  h.mock.tasks.clear();
+});
+
+describe("URL inputs", () => {
+  it("sends http(s) URLs to iLovePDF as cloud files", async () => {
+    // The mock stands in for the file host too: iLovePDF fetches cloud
+    // files itself, so the server only passes the URL on.
+    const url = `${h.mock.url}/files/scan.pdf?download=1`;
+    const result = await h.call("compress_pdf", {
+      file_path: url,
+      output_path: path.join(h.dir, "scan.pdf"),
+      keep_remote_task: true,
+    });
+
+    expect(result.isError, resultText(result)).toBeFalsy();
+    const [task] = h.mock.tasks.values();
+    expect(task.uploads).toEqual([
+      expect.objectContaining({ filename: "scan.pdf", cloud_file: url }),
+    ]);
+    expect(task.processed?.files).toEqual([
+      expect.objectContaining({ filename: "scan.pdf" }),
+    ]);
+    expect(fs.existsSync(path.join(h.dir, "scan.pdf"))).toBe(true);
+  });
+
+  it("mixes URLs and local files in their given order", async () => {
+    const result = await h.call("merge_pdf", {
+      file_paths: [
+        path.join(h.dir, "doc.pdf"),
+        `${h.mock.url}/files/appendix.pdf`,
+      ],
+      output_path: path.join(h.dir, "merged.pdf"),
+      keep_remote_task: true,
+    });
+
+    expect(result.isError, resultText(result)).toBeFalsy();
+    const [task] = h.mock.tasks.values();
+    expect(
+      (task.processed?.files as Array<{ filename: string }>).map(
+        (file) => file.filename,
+      ),
+    ).toEqual(["doc.pdf", "appendix.pdf"]);
+    expect(task.uploads.map((upload) => upload.cloud_file)).toContain(
+      `${h.mock.url}/files/appendix.pdf`,
+    );
+  });
+
+  it.each(["ftp://example.com/scan.pdf", "file:///tmp/scan.pdf"])(
+    "rejects %s before starting a task",
+    async (input) => {
+      const result = await h.call("compress_pdf", {
+        file_path: input,
+        output_path: path.join(h.dir, "rejected.pdf"),
+      });
+
+      expect(resultText(result)).toBe(
+        `Error: Unsupported URL scheme: ${input} (only http and https are supported)`,
+      );
+      expect(h.mock.requests.length).toBe(before);
+    },
+  );
+
+  it("rejects malformed URLs before starting a task", async () => {
+    const result = await h.call("compress_pdf", {
+      file_path: "https://",
+      output_path: path.join(h.dir, "rejected.pdf"),
+    });
+
+    expect(resultText(result)).toBe("Error: Invalid URL: https://");
+    expect(h.mock.requests.length).toBe(before);
+  });
+});